@@ -0,0 +1,27 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { requireServerDb } from '@/lib/firebase';
+import { FEED_COLLECTION, type CalendarFeedDoc } from '@/lib/calendarFeed';
+
+export const dynamic = 'force-dynamic';
+
+// Per-user iCalendar feed (subscribe from Google/Apple/Outlook calendar).
+export async function GET(_req: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const clean = token.replace(/\.ics$/, '');
+  if (!/^[a-f0-9]{16,}$/.test(clean)) return new Response('Not found', { status: 404 });
+
+  try {
+    const snap = await getDoc(doc(requireServerDb(), FEED_COLLECTION, clean));
+    const data = snap.data() as CalendarFeedDoc | undefined;
+    if (!data?.ics) return new Response('Not found', { status: 404 });
+    return new Response(data.ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="goals.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch {
+    return new Response('Feed unavailable', { status: 503 });
+  }
+}
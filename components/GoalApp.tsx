@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useEffect, useMemo, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useMemo, useState, useRef } from 'react';
 import {
   Card, CardContent, CardHeader, CardTitle,
 } from '@/components/ui/card';
@@ -12,15 +12,31 @@ import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Reorder, useDragControls, type DragControls } from 'framer-motion';
 import {
+  Ban,
   Calendar as CalendarIcon,
   CheckCircle2,
   ChevronDown,
   ChevronUp,
+  Download,
+  FileDown,
   Flame,
+  GripVertical,
   ListChecks,
+  Lock,
   Minus,
+  Pause,
+  Pencil,
+  Play,
   Plus,
+  Repeat,
+  RotateCcw,
+  Settings as SettingsIcon,
+  SkipForward,
+  SlidersHorizontal,
   SquarePlus,
   Trash2,
   User,
@@ -30,72 +46,51 @@ import {
 
 import { requireAuth, requireDb } from '@/lib/firebase';
 import {
-  doc, setDoc, getDocs, onSnapshot, collection, query, orderBy, deleteDoc, where,
-} from 'firebase/firestore';
+  BACKUP_COLLECTIONS, backupCounts, backupFilename, exportBackup, parseBackup, restoreBackup,
+  type Backup, type RestoreMode,
+} from '@/lib/backup';
+import { downloadFile } from '@/lib/download';
+import { creditsCSV, focusCSV, tasksCSV } from '@/lib/export/csv';
+import { buildICS } from '@/lib/export/ics';
+import {
+  disableCalendarFeed, enableCalendarFeed, feedPath, getCalendarFeedToken, publishCalendarFeed,
+} from '@/lib/calendarFeed';
+import { createRepository } from '@/lib/storage';
+import { mergePlans, stampPlan } from '@/lib/storage/merge';
+import {
+  diffLocalWithCloud, importLocalData, isEmptyDiff, type ImportMode, type LocalImportDiff,
+} from '@/lib/storage/reconcile';
+import type { DayMeta, DayPlan, FocusSession, Goal, GoalStatus, LifeArea, Milestone, PlannerSettings, Priority, Task, TaskTemplate, TemplateSchedule } from '@/lib/types';
+import {
+  applyAutoStatus, canReopen, completeGoal, dropGoal, effectiveTargetDate, pauseGoal, reopenGoal, resumeGoal,
+} from '@/lib/goalStatus';
+import {
+  creditMilestone, hasMilestones, mergeMilestoneEdits, moveMilestoneCredit, newMilestoneProgress, nextMilestone, rollupProgress,
+  withMilestones,
+} from '@/lib/milestones';
+import { streakDays } from '@/lib/streak';
+import { CARRY_LOOKBACK_DAYS, carryOver, isPostponed, lastPlanBefore } from '@/lib/carryOver';
+import { resolveSettings, type ResolvedSettings } from '@/lib/settings';
+import { capacityLoad, goalLoad, suggestDeferrals, type CapacityUnit } from '@/lib/capacity';
+import { backfilledTasks, isPastDay, markBackfilled } from '@/lib/backfill';
+import { goalTasks, reorderTasks } from '@/lib/ordering';
+import { ESTIMATE_PRESETS, creditPercent, formatEstimate, hasEstimate, weightedPercent } from '@/lib/effort';
+import { availableFrom, blockersOf, isBlocked, wouldCycle } from '@/lib/dependencies';
+import {
+  AREA_PALETTE, areaName, defaultAreaColor, listAreas, matchesArea, recolorArea, type AreaFilter,
+} from '@/lib/areas';
+import { adjustProgress, backfillCredits, burnUpSeries, dayCredits, planWeights, recordAdjustment, recordCredit } from '@/lib/ledger';
+import { forecastGoal, VELOCITY_WINDOW_DAYS, type ForecastStatus } from '@/lib/forecast';
+import { describeSchedule, dueTemplateTasks, nextOccurrence, skipNext, templateTaskId } from '@/lib/recurring';
+import {
+  isExpired, isPurged, isTrashed, purgeExpiredTasks, purgeGoal, purgeTask, restoreGoal, restoreTask, trashGoal, trashTask,
+  TRASH_RETENTION_DAYS,
+} from '@/lib/trash';
 
-// Initialize Firebase helpers (replace previous direct imports of auth/db)
+// Initialize Firebase auth (storage goes through the repository layer)
 const auth = requireAuth();
-const db = requireDb();
-
-/* ========= Types ========= */
-type Priority = 'Low' | 'Medium' | 'High';
-type GoalStatus = 'Active' | 'Paused' | 'Completed' | 'Dropped';
-type Tried = 'Yes' | 'No' | 'Neutral';
-
-interface Goal {
-  id: string;
-  title: string;
-  note: string;
-  startDate: string;
-  targetDate: string;
-  priority: Priority;
-  status: GoalStatus;
-  progress: number;    // 0–100
-  dailyWeight?: number;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface Task {
-  id: string;
-  goalId: string;
-  title: string;
-  how?: string;
-  percent: number; // 0..100
-}
-
-interface FocusSession {
-  id: string;
-  startISO: string;
-  endISO: string;
-  durationMin: number;
-  acknowledgedAt: string[];
-  status: 'completed' | 'failed' | 'canceled';
-}
-
-interface DayPlan {
-  date: string;                         // YYYY-MM-DD
-  priorities: string[];
-  tasks: Task[];
-  credits?: Record<string, number>;
-  postponeFlags?: Record<string, boolean>;
-  carriedFrom?: string;
-  focusedCount?: number;
-  focusedSessions?: FocusSession[];
-}
-
-interface DayMeta {
-  date: string;
-  learned?: string;
-  improve?: string;
-  triedWell?: Tried;
-  whyNotComplete?: string;
-}
 
 const NAME = 'Subhanshu';
-const LS_GOALS = 'goals_v3_longterm';
-const LS_PLANS = 'plans_v5_focus_history';
-const LS_META  = 'daymeta_v3_reflection';
 
 /* ========= Helpers ========= */
 const todayStr = () => new Date().toISOString().slice(0, 10);
@@ -105,6 +100,8 @@ const clamp = (n: number, min: number, max: number) => Math.min(Math.max(n, min)
 const step = (n: number, delta = 5) => clamp(Math.round((n + delta) / 5) * 5, 0, 100);
 const fmtDateLong = () => new Date().toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' });
 const yesterdayStr = () => { const d = new Date(); d.setDate(d.getDate()-1); return yyyymmdd(d); };
+const tomorrowStr = () => { const d = new Date(); d.setDate(d.getDate()+1); return yyyymmdd(d); };
+const emptyPlan = (date: string): DayPlan => ({ date, priorities: [], tasks: [], credits: {}, postponeFlags: {}, focusedCount: 0, focusedSessions: [] });
 
 const daysLeftInclusive = (fromISO: string, toISO: string): number => {
   const from = new Date(fromISO + 'T00:00:00');
@@ -132,11 +129,6 @@ const suggestedWeightToHit = (remainingPct: number, daysLeft: number, expectedAv
   return clamp(w, 1, 100);
 };
 
-const load = <T,>(key: string, fallback: T): T => {
-  try { const raw = localStorage.getItem(key); return raw ? (JSON.parse(raw) as T) : fallback; } catch { return fallback; }
-};
-const save = (key: string, value: unknown) => localStorage.setItem(key, JSON.stringify(value));
-
 /* ========= Week / Calendar helpers ========= */
 const startOfWeek = (isoDate: string) => {
   const d = new Date(isoDate + 'T00:00:00');
@@ -160,6 +152,38 @@ const dateRange = (start: string, end: string) => {
   return out;
 };
 
+const FORECAST_STYLE: Record<ForecastStatus, string> = {
+  'on track': 'bg-green-500/15 text-green-700 dark:text-green-400',
+  'at risk': 'bg-amber-500/15 text-amber-700 dark:text-amber-400',
+  'off track': 'bg-red-500/15 text-red-700 dark:text-red-400',
+};
+
+/* ========= Life areas ========= */
+function AreaDot({ color }: { color: string }) {
+  return <span className="inline-block h-2.5 w-2.5 rounded-full mr-1 shrink-0" style={{ background: color }} />;
+}
+
+function AreaFilterBar({
+  areas, value, onChange,
+}: {
+  areas: LifeArea[];
+  value: AreaFilter;
+  onChange: (v: AreaFilter) => void;
+}) {
+  if (areas.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1 pt-1">
+      <Button variant={value === null ? 'default' : 'outline'} size="sm" onClick={() => onChange(null)}>All areas</Button>
+      {areas.map((a) => (
+        <Button key={a.name} variant={value === a.name ? 'default' : 'outline'} size="sm" onClick={() => onChange(a.name)}>
+          <AreaDot color={a.color} />{a.name}
+        </Button>
+      ))}
+      <Button variant={value === '' ? 'default' : 'outline'} size="sm" onClick={() => onChange('')}>No area</Button>
+    </div>
+  );
+}
+
 /* ========= Pretty Ring (percentage) ========= */
 function Ring({ value, size = 72 }: { value: number; size?: number }) {
   const pct = clamp(Math.round(value), 0, 100);
@@ -175,48 +199,112 @@ function Ring({ value, size = 72 }: { value: number; size?: number }) {
 
 /* ========= Modals ========= */
 function GoalModal({
-  open, onOpenChange, onSave,
+  open, onOpenChange, onSave, goal, areas, goals,
 }: {
   open: boolean;
   onOpenChange: (v: boolean) => void;
-  onSave: (g: Goal) => void;
+  onSave: (g: Goal, note?: string) => void; // note: why the edit changes progress
+  goal?: Goal | null; // edit mode when set
+  areas: LifeArea[];
+  goals: Goal[];      // candidates for prerequisites
 }) {
   const [title, setTitle] = useState('');
   const [note, setNote] = useState('');
+  const [startDate, setStartDate] = useState(todayStr());
   const [targetDate, setTargetDate] = useState(todayStr());
   const [priority, setPriority] = useState<Priority>('Medium');
+  const [dailyWeight, setDailyWeight] = useState(5);
+  const [milestones, setMilestones] = useState<Milestone[]>([]);
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [area, setArea] = useState('');
+  const [areaColor, setAreaColor] = useState(AREA_PALETTE[0]);
+  const [colorTouched, setColorTouched] = useState(false);
+  const [blockedBy, setBlockedBy] = useState<string[]>([]);
+  const [progressNote, setProgressNote] = useState('');
 
   useEffect(() => {
-    if (open) {
-      setTitle(''); setNote(''); setTargetDate(todayStr()); setPriority('Medium');
+    if (!open) return;
+    setProgressNote('');
+    if (goal) {
+      setTitle(goal.title); setNote(goal.note); setStartDate(goal.startDate); setTargetDate(goal.targetDate);
+      setPriority(goal.priority); setDailyWeight(goal.dailyWeight ?? 5); setMilestones(goal.milestones ?? []);
+      setTemplates(goal.templates ?? []);
+      setArea(goal.area?.name ?? ''); setAreaColor(goal.area?.color ?? AREA_PALETTE[0]); setColorTouched(false);
+      setBlockedBy(goal.blockedBy ?? []);
+    } else {
+      setTitle(''); setNote(''); setStartDate(todayStr()); setTargetDate(todayStr()); setPriority('Medium'); setDailyWeight(5);
+      setMilestones([]); setTemplates([]); setArea(''); setAreaColor(AREA_PALETTE[0]); setColorTouched(false);
+      setBlockedBy([]);
     }
-  }, [open]);
+  }, [open, goal]);
+
+  const datesValid = !!startDate && !!targetDate && startDate <= targetDate;
+  const cleanMilestones = milestones
+    .filter((m) => m.title.trim())
+    .map((m) => ({
+      ...m,
+      title: m.title.trim(),
+      weight: clamp(Math.round(m.weight) || 1, 1, 100),
+      progress: clamp(Math.round(m.progress) || 0, 0, 100),
+    }));
+  const editMilestone = (id: string, patch: Partial<Milestone>) =>
+    setMilestones((ms) => ms.map((m) => (m.id === id ? { ...m, ...patch } : m)));
+  // picking an existing area takes its color; a new one gets a stable default
+  const chooseArea = (name: string) => {
+    setArea(name);
+    const existing = areas.find((a) => a.name.toLowerCase() === name.trim().toLowerCase());
+    if (existing) setAreaColor(existing.color);
+    else if (name.trim() && !colorTouched) setAreaColor(defaultAreaColor(name));
+  };
+  const prereqOptions = goals.filter((x) => x.id !== goal?.id && (x.status !== 'Completed' || blockedBy.includes(x.id)));
+  const editTemplate = (id: string, patch: Partial<TaskTemplate>) =>
+    setTemplates((ts) => ts.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+  const scheduleFor = (kind: TemplateSchedule['kind']): TemplateSchedule =>
+    kind === 'daily' ? { kind } : kind === 'weekdays' ? { kind, days: [1, 2, 3, 4, 5] } : { kind, every: 2 };
+
+  // Live deadline helper preview for the edited values
+  const progress = cleanMilestones.length ? rollupProgress(cleanMilestones) : goal?.progress ?? 0;
+  const remaining = clamp(100 - progress, 0, 100);
+  const daysLeft = daysLeftInclusive(todayStr(), targetDate);
+  const reqAvg = requiredAvgWithCurrentWeight(remaining, daysLeft, dailyWeight);
+  // reweighting or adding/removing milestones moves the derived progress: that's a manual adjustment, so it needs a note
+  const progressMoves = !!goal && progress !== goal.progress;
+  const valid = !!title.trim() && datesValid && (!progressMoves || !!progressNote.trim());
 
   const submit = () => {
-    if (!title.trim()) return;
+    if (!valid) return;
     const now = new Date().toISOString();
-    const g: Goal = {
-      id: uid(),
+    const fields = {
       title: title.trim(),
       note: note.trim(),
-      startDate: todayStr(),
+      startDate,
       targetDate,
       priority,
-      status: 'Active',
-      progress: 0,
-      dailyWeight: 5,
-      createdAt: now,
+      dailyWeight: clamp(Math.round(dailyWeight) || 1, 1, 100),
       updatedAt: now,
     };
-    onSave(g);
+    const g: Goal = goal
+      ? { ...goal, ...fields }
+      : { id: uid(), status: 'Active', progress: 0, createdAt: now, ...fields };
+    const cleanTemplates = templates
+      .filter((t) => t.title.trim())
+      .map((t) => ({
+        ...t,
+        title: t.title.trim(),
+        schedule: t.schedule.kind === 'interval' ? { kind: 'interval' as const, every: clamp(Math.round(t.schedule.every) || 1, 1, 365) } : t.schedule,
+      }));
+    if (cleanTemplates.length) g.templates = cleanTemplates; else delete g.templates;
+    if (area.trim()) g.area = { name: area.trim(), color: areaColor }; else delete g.area;
+    if (blockedBy.length) g.blockedBy = blockedBy; else delete g.blockedBy;
+    onSave(withMilestones(g, cleanMilestones), progressMoves ? progressNote.trim() : undefined);
     onOpenChange(false);
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent>
-        <DialogHeader><DialogTitle>Add long-term goal</DialogTitle></DialogHeader>
-        <div className="space-y-3">
+        <DialogHeader><DialogTitle>{goal ? 'Edit long-term goal' : 'Add long-term goal'}</DialogTitle></DialogHeader>
+        <div className="space-y-3 max-h-[70vh] overflow-auto pr-1">
           <div>
             <Label>Title</Label>
             <Input value={title} onChange={(e)=>setTitle(e.target.value)} placeholder="e.g., Publish DL research paper" />
@@ -238,22 +326,919 @@ function GoalModal({
                   {p}
                 </Button>
               ))}
-            </div>
-          </div>
-          <div>
-            <Label>Target date</Label>
-            <Input type="date" value={targetDate} onChange={(e)=>setTargetDate(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Start date</Label>
+              <Input type="date" value={startDate} onChange={(e)=>setStartDate(e.target.value)} />
+            </div>
+            <div>
+              <Label>Target date</Label>
+              <Input type="date" value={targetDate} onChange={(e)=>setTargetDate(e.target.value)} />
+            </div>
+          </div>
+          <div>
+            <Label>Life area</Label>
+            <div className="flex items-center gap-2 mt-1">
+              <Input list="goal-areas" value={area} onChange={(e)=>chooseArea(e.target.value)} placeholder="e.g., Research, Health, Career" />
+              <datalist id="goal-areas">
+                {areas.map((a) => <option key={a.name} value={a.name} />)}
+              </datalist>
+              <input
+                type="color"
+                aria-label="Area color"
+                className="h-9 w-10 rounded border bg-transparent p-1"
+                value={areaColor}
+                disabled={!area.trim()}
+                onChange={(e)=>{ setAreaColor(e.target.value); setColorTouched(true); }}
+              />
+            </div>
+            {area.trim() && areas.some((a) => a.name.toLowerCase() === area.trim().toLowerCase() && a.color !== areaColor) && (
+              <div className="text-xs text-muted-foreground mt-1">Saving recolors every goal in “{area.trim()}”.</div>
+            )}
+          </div>
+          {prereqOptions.length > 0 && (
+            <div>
+              <Label>Blocked by</Label>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {prereqOptions.map((p) => {
+                  const on = blockedBy.includes(p.id);
+                  const cycle = !on && !!goal && wouldCycle(goals, goal.id, p.id);
+                  return (
+                    <Button
+                      key={p.id}
+                      variant={on ? 'default' : 'outline'}
+                      size="sm"
+                      disabled={cycle}
+                      title={cycle ? `“${p.title}” already depends on this goal` : undefined}
+                      onClick={() => setBlockedBy((ids) => (on ? ids.filter((x) => x !== p.id) : [...ids, p.id]))}
+                    >
+                      {on && <Lock className="h-3 w-3 mr-1" />}{p.title}
+                    </Button>
+                  );
+                })}
+              </div>
+              <div className="text-xs text-muted-foreground mt-1">Unblocks by itself once every prerequisite is Completed.</div>
+            </div>
+          )}
+          <div>
+            <Label>Daily weight (%/day at 100% completion)</Label>
+            <Input type="number" min={1} max={100} className="w-28" value={dailyWeight} onChange={(e)=>setDailyWeight(Number(e.target.value))} />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Milestones</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={()=>setMilestones((ms) => [...ms, { id: uid(), title: '', weight: 1, progress: newMilestoneProgress(goal) }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />Milestone
+              </Button>
+            </div>
+            {milestones.length > 0 && (
+              <div className="grid grid-cols-[1fr_4rem_8.5rem_4rem_auto] gap-1 items-center text-xs text-muted-foreground">
+                <span>Title</span><span>Weight</span><span>Target</span><span>%</span><span />
+                {milestones.map((m) => (
+                  <React.Fragment key={m.id}>
+                    <Input value={m.title} onChange={(e)=>editMilestone(m.id, { title: e.target.value })} placeholder="e.g., Literature review" />
+                    <Input type="number" min={1} max={100} value={m.weight} onChange={(e)=>editMilestone(m.id, { weight: Number(e.target.value) })} />
+                    <Input type="date" value={m.targetDate ?? ''} onChange={(e)=>editMilestone(m.id, { targetDate: e.target.value || undefined })} />
+                    <span className="text-sm text-foreground tabular-nums">{m.progress}%</span>
+                    <Button variant="ghost" size="icon" onClick={()=>setMilestones((ms) => ms.filter((x) => x.id !== m.id))}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </React.Fragment>
+                ))}
+              </div>
+            )}
+            {cleanMilestones.length > 0 && (
+              <div className="text-xs text-muted-foreground">
+                Goal progress is derived from milestones: {progress}%. Milestone progress comes from planner credits; use Adjust progress to change it by hand.
+              </div>
+            )}
+            {progressMoves && (
+              <div>
+                <Label>Why does progress change ({goal!.progress}% → {progress}%)?</Label>
+                <Input value={progressNote} onChange={(e)=>setProgressNote(e.target.value)} placeholder="e.g., Split the review into two milestones" />
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Recurring tasks</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={()=>setTemplates((ts) => [...ts, { id: uid(), title: '', schedule: { kind: 'daily' }, startDate: todayStr() }])}
+              >
+                <Repeat className="h-4 w-4 mr-1" />Recurring task
+              </Button>
+            </div>
+            {templates.map((t) => (
+              <div key={t.id} className="p-2 rounded-md border space-y-2">
+                <div className="flex gap-2">
+                  <Input value={t.title} onChange={(e)=>editTemplate(t.id, { title: e.target.value })} placeholder="e.g., Read 1 paper" />
+                  <Button variant="ghost" size="icon" onClick={()=>setTemplates((ts) => ts.filter((x) => x.id !== t.id))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap items-center gap-1">
+                  {(['daily', 'weekdays', 'interval'] as const).map((k) => (
+                    <Button
+                      key={k}
+                      variant={t.schedule.kind === k ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={()=>editTemplate(t.id, { schedule: scheduleFor(k), startDate: todayStr() })}
+                    >
+                      {k === 'daily' ? 'Daily' : k === 'weekdays' ? 'Weekdays' : 'Every N days'}
+                    </Button>
+                  ))}
+                  {t.schedule.kind === 'interval' && (
+                    <Input
+                      type="number"
+                      min={1}
+                      max={365}
+                      className="w-20"
+                      value={t.schedule.every}
+                      onChange={(e)=>editTemplate(t.id, { schedule: { kind: 'interval', every: Number(e.target.value) } })}
+                    />
+                  )}
+                </div>
+                {t.schedule.kind === 'weekdays' && (
+                  <div className="flex gap-1">
+                    {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((label, day) => {
+                      const days = t.schedule.kind === 'weekdays' ? t.schedule.days : [];
+                      const on = days.includes(day);
+                      return (
+                        <Button
+                          key={day}
+                          variant={on ? 'default' : 'outline'}
+                          size="sm"
+                          className="w-8 px-0"
+                          onClick={()=>editTemplate(t.id, { schedule: { kind: 'weekdays', days: on ? days.filter((d) => d !== day) : [...days, day] } })}
+                        >
+                          {label}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          {!datesValid && <div className="text-xs text-red-500">Target date must be on or after the start date.</div>}
+          {datesValid && (
+            <div className="text-xs text-muted-foreground">
+              {daysLeft} day{daysLeft === 1 ? '' : 's'} left • Remaining {remaining}% • Daily avg needed: <span className="font-medium">{reqAvg}%</span>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={()=>onOpenChange(false)}>Cancel</Button>
+          <Button onClick={submit} disabled={!valid}><CheckCircle2 className="h-4 w-4 mr-2" />Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DropGoalDialog({
+  goal, onOpenChange, onDrop,
+}: {
+  goal: Goal | null;
+  onOpenChange: (v: boolean) => void;
+  onDrop: (reason: string) => void;
+}) {
+  const [reason, setReason] = useState('');
+  useEffect(() => { if (goal) setReason(''); }, [goal]);
+
+  const submit = () => {
+    if (!reason.trim()) return;
+    onDrop(reason.trim());
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!goal} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader><DialogTitle>Drop “{goal?.title}”?</DialogTitle></DialogHeader>
+        <div className="space-y-2">
+          <Label>Why are you dropping it?</Label>
+          <Textarea rows={3} value={reason} onChange={(e)=>setReason(e.target.value)} placeholder="e.g., Priorities changed; no longer relevant" />
+          <div className="text-xs text-muted-foreground">Dropped goals keep their history and can be reopened later.</div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={()=>onOpenChange(false)}>Cancel</Button>
+          <Button variant="destructive" disabled={!reason.trim()} onClick={submit}><Ban className="h-4 w-4 mr-2" />Drop goal</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/* ========= Import signed-out data ========= */
+function ImportLocalDialog({
+  diff, onResolve, onLater,
+}: {
+  diff: LocalImportDiff | null;
+  onResolve: (mode: ImportMode) => Promise<void>;
+  onLater: () => void; // close without touching either copy; asked again next sign-in
+}) {
+  const [busy, setBusy] = useState<ImportMode | null>(null);
+  const [error, setError] = useState('');
+
+  const resolve = async (mode: ImportMode) => {
+    setBusy(mode); setError('');
+    try {
+      await onResolve(mode);
+    } catch {
+      setError('Could not write to your account. Check your connection and try again.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const tag = (inCloud: boolean) => (
+    <Badge variant={inCloud ? 'default' : 'secondary'}>{inCloud ? 'differs from account' : 'only on this device'}</Badge>
+  );
+
+  return (
+    <Dialog open={!!diff} onOpenChange={(o) => { if (!o && !busy) onLater(); }}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader><DialogTitle>Data from before you signed in</DialogTitle></DialogHeader>
+        {diff && (
+          <div className="space-y-4 max-h-[60vh] overflow-auto">
+            <div className="text-xs text-muted-foreground">
+              This device has {diff.goals.length} goal{diff.goals.length === 1 ? '' : 's'}, {diff.plans.length} planned day{diff.plans.length === 1 ? '' : 's'} and {diff.meta.length} reflection{diff.meta.length === 1 ? '' : 's'} that aren’t in your account.
+            </div>
+
+            {diff.goals.length > 0 && (
+              <div className="p-3 rounded-md border space-y-1">
+                <div className="text-sm font-medium">Goals</div>
+                {diff.goals.map(({ local, cloud }) => (
+                  <div key={local.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="truncate">
+                      {local.title} <span className="text-xs text-muted-foreground">{local.progress}%{cloud ? ` (account: ${cloud.progress}%)` : ''}</span>
+                    </span>
+                    {tag(!!cloud)}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {diff.plans.length > 0 && (
+              <div className="p-3 rounded-md border space-y-1">
+                <div className="text-sm font-medium">Planned days</div>
+                {diff.plans.map(({ local, cloud }) => (
+                  <div key={local.date} className="flex items-center justify-between gap-2 text-sm">
+                    <span>
+                      {local.date} <span className="text-xs text-muted-foreground">{local.tasks.length} task{local.tasks.length === 1 ? '' : 's'}{cloud ? ` (account: ${cloud.tasks.length})` : ''}</span>
+                    </span>
+                    {tag(!!cloud)}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {diff.meta.length > 0 && (
+              <div className="p-3 rounded-md border space-y-1">
+                <div className="text-sm font-medium">Reflections</div>
+                {diff.meta.map(({ local, cloud }) => (
+                  <div key={local.date} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="truncate">{local.date} <span className="text-xs text-muted-foreground">{local.learned}</span></span>
+                    {tag(!!cloud)}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="text-xs text-muted-foreground">
+              Upload: this device’s copy wins. Merge: add what’s missing and keep the account’s version where both changed. Discard: delete the local copy. Later: keep both as they are and ask again next time.
+            </div>
+            {error && <div className="text-sm text-red-600">{error}</div>}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="ghost" disabled={!!busy} onClick={onLater}>Later</Button>
+          <Button variant="destructive" disabled={!!busy} onClick={() => resolve('discard')}>Discard</Button>
+          <Button variant="outline" disabled={!!busy} onClick={() => resolve('merge')}>{busy === 'merge' ? 'Merging…' : 'Merge'}</Button>
+          <Button disabled={!!busy} onClick={() => resolve('upload')}>{busy === 'upload' ? 'Uploading…' : 'Upload'}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/* ========= Burn-up chart + ledger ========= */
+function BurnUpChart({ goal, today }: { goal: Goal; today: string }) {
+  const [showLedger, setShowLedger] = useState(false);
+  const data = useMemo(() => burnUpSeries(goal, today), [goal, today]);
+  const entries = Object.entries(goal.ledger ?? {}).filter(([, d]) => d.credited || d.adjusted).sort(([a], [b]) => (a < b ? 1 : -1));
+  if (data.length < 2) return null;
+
+  const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+  return (
+    <div className="mt-2">
+      <div className="h-28">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 4, right: 4, bottom: 0, left: -28 }}>
+            <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.3} />
+            <XAxis dataKey="date" tick={{ fontSize: 10 }} tickFormatter={(d: string) => d.slice(5)} minTickGap={24} />
+            <YAxis domain={[0, 100]} tick={{ fontSize: 10 }} ticks={[0, 50, 100]} />
+            <Tooltip formatter={(v, name) => [`${v}%`, name === 'actual' ? 'Actual' : 'Ideal']} />
+            <Line type="linear" dataKey="ideal" stroke="var(--muted-foreground)" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+            <Line type="stepAfter" dataKey="actual" stroke="var(--chart-1)" strokeWidth={2} dot={false} connectNulls={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      {entries.length > 0 && (
+        <div className="text-xs">
+          <button className="text-muted-foreground underline" onClick={() => setShowLedger((v) => !v)}>
+            {showLedger ? 'Hide ledger' : `Ledger (${entries.length} day${entries.length === 1 ? '' : 's'})`}
+          </button>
+          {showLedger && (
+            <div className="mt-1 max-h-32 overflow-auto space-y-0.5">
+              {entries.map(([date, d]) => (
+                <div key={date} className="flex justify-between">
+                  <span>{date}</span>
+                  <span className="text-muted-foreground">
+                    {d.credited ? `${signed(d.credited)} credited` : ''}
+                    {d.credited && d.adjusted ? ' • ' : ''}
+                    {d.adjusted ? `${signed(d.adjusted)} adjusted` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ========= Manual progress adjustments ========= */
+function AdjustProgressDialog({
+  goal, onOpenChange, onAdjust,
+}: {
+  goal: Goal | null;
+  onOpenChange: (v: boolean) => void;
+  onAdjust: (delta: number, note: string, milestoneId?: string) => void;
+}) {
+  const [delta, setDelta] = useState(5);
+  const [note, setNote] = useState('');
+  const [milestoneId, setMilestoneId] = useState<string | undefined>();
+  useEffect(() => {
+    if (!goal) return;
+    setDelta(5); setNote(''); setMilestoneId(goal.milestones?.[0]?.id);
+  }, [goal]);
+
+  const preview = goal ? (() => { try { return adjustProgress(goal, delta, note || '-', todayStr(), milestoneId).progress; } catch { return goal.progress; } })() : 0;
+  const valid = !!note.trim() && !!delta;
+
+  const submit = () => {
+    if (!valid) return;
+    onAdjust(delta, note.trim(), milestoneId);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!goal} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader><DialogTitle>Adjust progress — {goal?.title}</DialogTitle></DialogHeader>
+        <div className="space-y-3">
+          <div>
+            <Label>Change (progress points)</Label>
+            <div className="flex flex-wrap items-center gap-1 mt-1">
+              {[-10, -5, 5, 10].map((d) => (
+                <Button key={d} variant={delta === d ? 'default' : 'outline'} size="sm" onClick={()=>setDelta(d)}>{d > 0 ? `+${d}` : d}</Button>
+              ))}
+              <Input type="number" min={-100} max={100} className="w-24" value={delta} onChange={(e)=>setDelta(Math.round(Number(e.target.value)) || 0)} />
+            </div>
+          </div>
+          {(goal?.milestones?.length ?? 0) > 0 && (
+            <div>
+              <Label>Milestone</Label>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {goal!.milestones!.map((m) => (
+                  <Button key={m.id} variant={m.id === milestoneId ? 'default' : 'outline'} size="sm" onClick={()=>setMilestoneId(m.id)}>
+                    {m.title} <span className="ml-1 text-xs opacity-70">{m.progress}%</span>
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+          <div>
+            <Label>Note (required)</Label>
+            <Textarea rows={2} value={note} onChange={(e)=>setNote(e.target.value)} placeholder="e.g., Weekend hackathon; fixing a wrong credit" />
+          </div>
+          {goal && <div className="text-xs text-muted-foreground">Progress {goal.progress}% → <span className="font-medium">{preview}%</span></div>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={()=>onOpenChange(false)}>Cancel</Button>
+          <Button disabled={!valid} onClick={submit}><CheckCircle2 className="h-4 w-4 mr-2" />Apply</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ProgressLog({ goal }: { goal: Goal }) {
+  const [open, setOpen] = useState(false);
+  const events = [...(goal.audit ?? [])].reverse();
+  if (events.length === 0) return null;
+  const milestone = (id?: string) => goal.milestones?.find((m) => m.id === id)?.title;
+
+  return (
+    <div className="mt-1 text-xs">
+      <button className="text-muted-foreground underline" onClick={() => setOpen((v) => !v)}>
+        {open ? 'Hide activity' : `Activity (${events.length})`}
+      </button>
+      {open && (
+        <div className="mt-1 max-h-40 overflow-auto space-y-1">
+          {events.map((e) => (
+            <div key={e.id} className="flex justify-between gap-2">
+              <span className="min-w-0">
+                <span className="text-muted-foreground">{e.date}</span>{' '}
+                {e.kind === 'credit' ? 'Planner credit' : <span className="font-medium">Adjusted</span>}
+                {e.backfilled ? <span className="text-amber-600"> (backfilled)</span> : null}
+                {milestone(e.milestoneId) ? ` • ${milestone(e.milestoneId)}` : ''}
+                {e.note ? <span className="text-muted-foreground"> — {e.note}</span> : null}
+              </span>
+              <span className="shrink-0">{e.delta > 0 ? `+${e.delta}` : e.delta} → {e.progress}%</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ========= Drag-and-drop ordering ========= */
+// Items are dragged by their grip (mouse, pen or touch), so buttons and
+// scrolling inside a row keep working. The new order is committed once, on drop.
+function SortableList({ ids, onReorder, className, children }: {
+  ids: string[];
+  onReorder: (ids: string[]) => void;
+  className?: string;
+  children: (id: string, grip: React.ReactNode) => React.ReactNode;
+}) {
+  const [dragged, setDragged] = useState<string[] | null>(null); // order while a drag is in progress
+  const order = dragged ? dragged.filter((id) => ids.includes(id)) : ids;
+
+  const drop = () => {
+    if (order.join('|') !== ids.join('|')) onReorder(order);
+    setDragged(null);
+  };
+
+  return (
+    <Reorder.Group axis="y" values={order} onReorder={setDragged} className={className}>
+      {order.map((id) => (
+        <SortableItem key={id} id={id} onDrop={drop}>
+          {(controls) => children(id, <DragGrip controls={controls} />)}
+        </SortableItem>
+      ))}
+    </Reorder.Group>
+  );
+}
+
+function SortableItem({ id, onDrop, children }: {
+  id: string;
+  onDrop: () => void;
+  children: (controls: DragControls) => React.ReactNode;
+}) {
+  const controls = useDragControls();
+  return (
+    <Reorder.Item value={id} dragListener={false} dragControls={controls} onDragEnd={onDrop} className="list-none">
+      {children(controls)}
+    </Reorder.Item>
+  );
+}
+
+function DragGrip({ controls }: { controls: DragControls }) {
+  return (
+    <span
+      className="cursor-grab active:cursor-grabbing text-muted-foreground touch-none select-none"
+      onPointerDown={(e) => controls.start(e)}
+      aria-label="Drag to reorder"
+    >
+      <GripVertical className="h-4 w-4" />
+    </span>
+  );
+}
+
+/* ========= Trash & undo ========= */
+interface UndoAction {
+  label: string;
+  run: () => void;
+}
+
+function UndoToast({ undo, onDone }: { undo: UndoAction | null; onDone: () => void }) {
+  useEffect(() => {
+    if (!undo) return;
+    const t = setTimeout(onDone, 8000);
+    return () => clearTimeout(t);
+  }, [undo, onDone]);
+
+  if (!undo) return null;
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 rounded-md border bg-background px-4 py-2 shadow-lg text-sm">
+      <span className="truncate max-w-[60vw]">{undo.label}</span>
+      <Button size="sm" variant="outline" onClick={() => { undo.run(); onDone(); }}>
+        <RotateCcw className="h-4 w-4 mr-1" />Undo
+      </Button>
+    </div>
+  );
+}
+
+function TrashDialog({
+  open, onOpenChange, goals, plans, onRestoreGoal, onPurgeGoal, onRestoreTask, onPurgeTask,
+}: {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  goals: Goal[];
+  plans: Record<string, DayPlan>;
+  onRestoreGoal: (g: Goal) => void;
+  onPurgeGoal: (id: string) => void;
+  onRestoreTask: (date: string, taskId: string) => void;
+  onPurgeTask: (date: string, taskId: string) => void;
+}) {
+  const tasks = Object.values(plans)
+    .flatMap((pl) => Object.values(pl.trashedTasks || {}).map((t) => ({ date: pl.date, task: t })))
+    .sort((a, b) => (a.task.deletedAt < b.task.deletedAt ? 1 : -1));
+  const titleOf = (id: string) => goals.find((g) => g.id === id)?.title;
+  const when = (iso: string) => new Date(iso).toLocaleDateString();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader><DialogTitle>Trash</DialogTitle></DialogHeader>
+        <div className="space-y-4 max-h-[60vh] overflow-auto">
+          <div className="text-xs text-muted-foreground">Deleted items are removed for good after {TRASH_RETENTION_DAYS} days.</div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Goals</div>
+            {goals.length === 0 && <div className="text-xs text-muted-foreground">No deleted goals.</div>}
+            {goals.map((g) => (
+              <div key={g.id} className="flex items-center justify-between gap-2 p-2 rounded-md border">
+                <div className="min-w-0">
+                  <div className="text-sm truncate">{g.title}</div>
+                  <div className="text-xs text-muted-foreground">{g.progress}% • deleted {when(g.deletedAt!)}</div>
+                </div>
+                <div className="flex gap-1">
+                  <Button size="sm" variant="outline" onClick={() => onRestoreGoal(g)}><RotateCcw className="h-4 w-4 mr-1" />Restore</Button>
+                  <Button size="icon" variant="destructive" onClick={() => onPurgeGoal(g.id)}><Trash2 className="h-4 w-4" /></Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Tasks</div>
+            {tasks.length === 0 && <div className="text-xs text-muted-foreground">No deleted tasks in the loaded days.</div>}
+            {tasks.map(({ date, task }) => (
+              <div key={task.id} className="flex items-center justify-between gap-2 p-2 rounded-md border">
+                <div className="min-w-0">
+                  <div className="text-sm truncate">{task.title}</div>
+                  <div className="text-xs text-muted-foreground truncate">{date}{titleOf(task.goalId) ? ` • ${titleOf(task.goalId)}` : ''}</div>
+                </div>
+                <div className="flex gap-1">
+                  <Button size="sm" variant="outline" onClick={() => onRestoreTask(date, task.id)}><RotateCcw className="h-4 w-4 mr-1" />Restore</Button>
+                  <Button size="icon" variant="destructive" onClick={() => onPurgeTask(date, task.id)}><Trash2 className="h-4 w-4" /></Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/* ========= Export (CSV / calendar) ========= */
+interface FeedControls {
+  token: string | null;
+  enable: () => Promise<void>;
+  disable: () => Promise<void>;
+}
+
+function ExportDialog({
+  open, onOpenChange, goals, loadPlans, feed,
+}: {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  goals: Goal[];
+  loadPlans: (startISO: string, endISO: string) => Promise<Record<string, DayPlan>>;
+  feed?: FeedControls; // only when signed in
+}) {
+  const [start, setStart] = useState(() => todayStr().slice(0, 8) + '01');
+  const [end, setEnd] = useState(todayStr());
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => { if (open) setError(''); }, [open]);
+
+  const run = async (kind: 'tasks' | 'credits' | 'focus' | 'ics') => {
+    if (!start || !end || start > end) { setError('Pick a start date on or before the end date.'); return; }
+    setBusy(true); setError('');
+    try {
+      const plans = await loadPlans(start, end);
+      if (kind === 'ics') {
+        downloadFile(`goals-${start}_${end}.ics`, buildICS(goals, plans), 'text/calendar');
+        return;
+      }
+      const csv = kind === 'tasks' ? tasksCSV(plans, goals) : kind === 'credits' ? creditsCSV(plans, goals) : focusCSV(plans);
+      downloadFile(`${kind}-${start}_${end}.csv`, csv, 'text/csv');
+    } catch {
+      setError('Could not load plans for that range.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleFeed = async (on: boolean) => {
+    if (!feed) return;
+    setBusy(true); setError('');
+    try {
+      await (on ? feed.enable() : feed.disable());
+    } catch {
+      setError('Could not update the calendar feed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+  const feedUrl = feed?.token ? `${window.location.origin}${feedPath(feed.token)}` : '';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader><DialogTitle>Export</DialogTitle></DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div><Label>From</Label><Input type="date" value={start} onChange={(e)=>setStart(e.target.value)} /></div>
+            <div><Label>To</Label><Input type="date" value={end} onChange={(e)=>setEnd(e.target.value)} /></div>
+          </div>
+          <div className="space-y-2">
+            <Label>Spreadsheet (CSV)</Label>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" disabled={busy} onClick={()=>run('tasks')}>Tasks</Button>
+              <Button variant="outline" size="sm" disabled={busy} onClick={()=>run('credits')}>Credits</Button>
+              <Button variant="outline" size="sm" disabled={busy} onClick={()=>run('focus')}>Focus sessions</Button>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Calendar (.ics)</Label>
+            <div className="text-xs text-muted-foreground">Goal deadlines as all-day events; completed focus sessions in the range as timed events.</div>
+            <Button variant="outline" size="sm" disabled={busy} onClick={()=>run('ics')}>Download .ics</Button>
+            {feed && (
+              feed.token ? (
+                <div className="space-y-2">
+                  <div className="text-xs text-muted-foreground">Subscribe to this URL in your calendar app. It updates as you work (last 90 days of sessions).</div>
+                  <div className="flex gap-2">
+                    <Input readOnly value={feedUrl} onFocus={(e)=>e.target.select()} />
+                    <Button variant="outline" size="sm" onClick={()=>navigator.clipboard?.writeText(feedUrl).catch(() => {})}>Copy</Button>
+                  </div>
+                  <Button variant="destructive" size="sm" disabled={busy} onClick={()=>toggleFeed(false)}>Turn off feed</Button>
+                </div>
+              ) : (
+                <Button variant="outline" size="sm" disabled={busy} onClick={()=>toggleFeed(true)}>Create subscription link</Button>
+              )
+            )}
+          </div>
+          {error && <div className="text-sm text-red-600">{error}</div>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={()=>onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/* ========= Backup (export / restore) ========= */
+function BackupDialog({
+  open, onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [pending, setPending] = useState<Backup | null>(null);
+  const [progress, setProgress] = useState<string>('');
+
+  useEffect(() => {
+    if (open) { setBusy(false); setError(''); setPending(null); setProgress(''); }
+  }, [open]);
+
+  const user = auth.currentUser;
+
+  const doExport = async () => {
+    if (!user) return;
+    setBusy(true); setError('');
+    try {
+      const b = await exportBackup(requireDb(), user.uid);
+      downloadFile(backupFilename(b), JSON.stringify(b, null, 2), 'application/json');
+    } catch {
+      setError('Export failed. Check your connection and try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const pickFile = async (file: File | undefined) => {
+    setError(''); setPending(null);
+    if (!file) return;
+    try {
+      setPending(parseBackup(await file.text()));
+    } catch (err) {
+      setError((err as Error).message.replace('[Backup] ', ''));
+    }
+  };
+
+  const doRestore = async (mode: RestoreMode) => {
+    if (!user || !pending) return;
+    setBusy(true); setError('');
+    try {
+      await restoreBackup(requireDb(), user.uid, pending, mode, (done, total) => setProgress(`${done}/${total} writes`));
+      // Reload so every screen re-reads the restored data.
+      window.location.reload();
+    } catch {
+      setError('Restore stopped part-way. Run it again to finish.');
+      setBusy(false);
+    }
+  };
+
+  const counts = pending ? backupCounts(pending) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader><DialogTitle>Backup & restore</DialogTitle></DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Export</Label>
+            <div className="text-xs text-muted-foreground">Downloads goals, plans, reflections, journal, habits and reviews as one JSON file.</div>
+            <Button variant="outline" disabled={busy || !user} onClick={doExport}>Download backup</Button>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label>Restore</Label>
+            <Input type="file" accept="application/json,.json" disabled={busy} onChange={(e) => pickFile(e.target.files?.[0])} />
+            {pending && counts && (
+              <div className="p-3 rounded-md border space-y-1">
+                <div className="text-xs text-muted-foreground">Exported {pending.exportedAt ? new Date(pending.exportedAt).toLocaleString() : 'at an unknown time'}</div>
+                <div className="grid grid-cols-2 gap-x-4 text-sm">
+                  {BACKUP_COLLECTIONS.map((n) => (
+                    <div key={n} className="flex justify-between"><span>{n}</span><span className="text-muted-foreground">{counts[n]}</span></div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {progress && <div className="text-xs text-muted-foreground">Writing… {progress}</div>}
+            {error && <div className="text-sm text-red-600">{error}</div>}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button variant="outline" disabled={busy || !pending} onClick={() => doRestore('merge')}>Merge into account</Button>
+          <Button variant="destructive" disabled={busy || !pending} onClick={() => doRestore('replace')}>Replace account data</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/* ========= Planner settings ========= */
+function SettingsDialog({
+  open, onOpenChange, settings, onChange,
+}: {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  settings: ResolvedSettings;
+  onChange: (patch: PlannerSettings) => void;
+}) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader><DialogTitle>Planner settings</DialogTitle></DialogHeader>
+        <div className="space-y-4">
+          <div className="text-sm font-medium">Carry-over</div>
+          <label className="flex items-center justify-between gap-4 text-sm">
+            <span>
+              Move unfinished tasks on automatically
+              <span className="block text-xs text-muted-foreground">Everything under 100% carries to the next day you open, unless unticked.</span>
+            </span>
+            <Switch checked={settings.autoPostpone} onCheckedChange={(v) => onChange({ autoPostpone: v })} />
+          </label>
+          <label className="flex items-center justify-between gap-4 text-sm">
+            <span>
+              Keep partial progress
+              <span className="block text-xs text-muted-foreground">A task at 40% carries over at 40% (only the rest earns credit again).</span>
+            </span>
+            <Switch checked={settings.carryPartial} onCheckedChange={(v) => onChange({ carryPartial: v })} />
+          </label>
+          <Separator />
+          <div className="text-sm font-medium">Daily capacity</div>
+          <div className="flex items-center justify-between gap-4 text-sm">
+            <span>
+              What a day can hold
+              <span className="block text-xs text-muted-foreground">Hours are summed from task estimates, points from goals’ daily weights. 0 turns it off.</span>
+            </span>
+            <span className="flex items-center gap-1">
+              <Input
+                type="number" min={0} step={settings.capacityUnit === 'hours' ? 0.5 : 1} className="h-8 w-20"
+                value={settings.capacity}
+                onChange={(e) => { const n = Number(e.target.value); if (n >= 0) onChange({ capacity: n }); }}
+              />
+              {(['hours', 'points'] as const).map((u) => (
+                <Button key={u} size="sm" variant={settings.capacityUnit === u ? 'default' : 'outline'} onClick={() => onChange({ capacityUnit: u })}>{u}</Button>
+              ))}
+            </span>
           </div>
+          <Separator />
+          <label className="flex items-center justify-between gap-4 text-sm">
+            <span>Warn when a task has been postponed</span>
+            <span className="flex items-center gap-1">
+              <Input
+                type="number" min={1} className="h-8 w-16"
+                value={settings.postponeWarnAt}
+                onChange={(e) => { const n = Math.round(Number(e.target.value)); if (n >= 1) onChange({ postponeWarnAt: n }); }}
+              />
+              <span className="text-xs text-muted-foreground">times</span>
+            </span>
+          </label>
         </div>
         <DialogFooter>
-          <Button variant="outline" onClick={()=>onOpenChange(false)}>Cancel</Button>
-          <Button onClick={submit}><CheckCircle2 className="h-4 w-4 mr-2" />Save</Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
   );
 }
 
+// "postponed N×", turning into a warning once it reaches the threshold
+function PostponedBadge({ task, warnAt }: { task: Task; warnAt: number }) {
+  const n = task.postponed ?? 0;
+  if (!n) return null;
+  const warn = n >= warnAt;
+  return (
+    <span
+      className={`ml-2 text-[11px] font-normal ${warn ? 'text-amber-600' : 'text-muted-foreground'}`}
+      title={warn ? 'Keeps slipping — split it into something smaller, or drop it.' : undefined}
+    >
+      {warn ? '⚠ ' : ''}postponed {n}×
+    </span>
+  );
+}
+
+/* ========= Daily capacity ========= */
+const formatLoad = (n: number, unit: CapacityUnit) => (unit === 'hours' ? formatEstimate(n) : `${n} pts`);
+
+// planned load against the daily capacity, with what to defer when it's over
+function CapacityMeter({
+  unit, total, limit, unestimated, defer, onDefer,
+}: {
+  unit: CapacityUnit;
+  total: number;
+  limit: number;
+  unestimated: number;
+  defer: Goal[];
+  onDefer: (goalId: string) => void;
+}) {
+  const over = total > limit;
+  return (
+    <div className={`rounded-md border p-3 space-y-2 ${over ? 'border-red-500/60' : ''}`}>
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">Planned {formatLoad(total, unit)} of {formatLoad(limit, unit)}</span>
+        {over && <span className="font-medium text-red-500">Overcommitted by {formatLoad(total - limit, unit)}</span>}
+      </div>
+      <Progress value={Math.min(100, Math.round((total / limit) * 100))} />
+      {unit === 'hours' && unestimated > 0 && (
+        <div className="text-[11px] text-muted-foreground">{unestimated} task{unestimated === 1 ? '' : 's'} without an estimate not counted.</div>
+      )}
+      {over && defer.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs">Least urgent — consider deferring to the next day:</div>
+          {defer.map((g) => (
+            <div key={g.id} className="flex items-center justify-between gap-2 text-xs">
+              <span className="truncate">{g.title}</span>
+              <Button variant="outline" size="sm" className="h-6 px-2" onClick={() => onDefer(g.id)}>Defer</Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /* ========= Focused Session Panel ========= */
 function FocusPanel({
   dateKey, plan, updatePlan,
@@ -297,6 +1282,7 @@ function FocusPanel({
       } else if (status === 'failed') {
         nextFocusedCount = 0;
         nextList = [];
+        return { ...cur, focusedCount: nextFocusedCount, focusedSessions: nextList, focusResetAt: endISO };
       } else {
         nextList = [session, ...list];
       }
@@ -467,47 +1453,44 @@ function FocusPanel({
 /* ========= Main App ========= */
 export default function GoalsApp() {
   const [goals, setGoals] = useState<Goal[]>([]);
+  const [trashedGoals, setTrashedGoals] = useState<Goal[]>([]);
+  const [purgedGoals, setPurgedGoals] = useState<Goal[]>([]); // tombstones, only so history can name them
+  const allGoals = useMemo(() => [...goals, ...trashedGoals, ...purgedGoals], [goals, trashedGoals, purgedGoals]);
+  const [undo, setUndo] = useState<UndoAction | null>(null);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const clearUndo = useCallback(() => setUndo(null), []);
   const [plans, setPlans] = useState<Record<string, DayPlan>>({});
   const [meta, setMeta]   = useState<Record<string, DayMeta>>({});
   const [ready, setReady] = useState(false);
 
   // modals
   const [goalOpen, setGoalOpen] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+  const [droppingGoal, setDroppingGoal] = useState<Goal | null>(null);
+  const [adjustingGoal, setAdjustingGoal] = useState<Goal | null>(null);
+  const [statusFilter, setStatusFilter] = useState<'All' | GoalStatus>('All');
+  const [listArea, setListArea] = useState<AreaFilter>(null);
+  const [weekArea, setWeekArea] = useState<AreaFilter>(null);
+  const [historyArea, setHistoryArea] = useState<AreaFilter>(null);
+  const [backupOpen, setBackupOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [settings, setSettings] = useState<PlannerSettings | undefined>(undefined);
+  const prefs = resolveSettings(settings);
+
+  // signed-out data waiting to be imported into the account
+  const [importDiff, setImportDiff] = useState<LocalImportDiff | null>(null);
 
   // history modal
   const [histOpen, setHistOpen] = useState(false);
+  const [histEditing, setHistEditing] = useState(false);
   const [histDate, setHistDate] = useState<string | null>(null);
 
   const today = todayStr();
 
-  /* ---- Firestore helpers: write-through ---- */
-  const writePlanToCloud = (dateKey: string, plan: DayPlan) => {
-    const u = auth.currentUser; if (!u) return;
-    setDoc(doc(db, 'users', u.uid, 'plans', dateKey), plan, { merge: false }).catch(() => {});
-  };
-  const writeMetaToCloud = (dateKey: string, m: DayMeta) => {
-    const u = auth.currentUser; if (!u) return;
-    setDoc(doc(db, 'users', u.uid, 'meta', dateKey), m, { merge: true }).catch(() => {});
-  };
-  const persistGoal = (g: Goal) => {
-    const u = auth.currentUser; if (!u) return;
-    setDoc(doc(db, 'users', u.uid, 'goals', g.id), g, { merge: true }).catch(() => {});
-  };
-
-  // single entry point to update today's plan and sync
-  const updatePlanToday = (producer: (cur: DayPlan) => DayPlan) => {
-    setPlans(prev => {
-      const cur = prev[today] || { date: today, priorities: [], tasks: [], credits: {}, postponeFlags: {}, focusedCount: 0, focusedSessions: [] };
-      const next = producer(cur);
-      const merged = { ...prev, [today]: next };
-      writePlanToCloud(today, next);
-      return merged;
-    });
-  };
-
-  /* ---- init ---- */
-  useEffect(() => {
-    const g = load<Goal[]>(LS_GOALS, [
+  // Storage backend: Firestore when signed in, localStorage otherwise.
+  const repo = useMemo(() => createRepository(auth.currentUser, {
+    goals: [
       {
         id: uid(),
         title: 'Publish DL research paper',
@@ -521,74 +1504,268 @@ export default function GoalsApp() {
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       },
-    ]);
-    const p = load<Record<string, DayPlan>>(LS_PLANS, {});
-    const m = load<Record<string, DayMeta>>(LS_META, {});
-    setGoals(g);
-    setPlans(p);
-    setMeta(m);
-    setReady(true);
-  }, []);
-
-  /* ---- persistence (fallback for signed-out) ---- */
-  useEffect(() => { if (ready) save(LS_GOALS, goals); }, [goals, ready]);
-  useEffect(() => { if (ready) save(LS_PLANS, plans); }, [plans, ready]);
-  useEffect(() => { if (ready) save(LS_META, meta); }, [meta, ready]);
-
-  /* ---- auto-carry postponed tasks from yesterday ---- */
-  useEffect(() => {
-    if (!ready) return;
-    const y = yesterdayStr();
-    const yPlan = plans[y];
-    const tPlan = plans[today] || { date: today, priorities: [], tasks: [], credits: {}, postponeFlags: {}, focusedCount: 0, focusedSessions: [] };
-    if (tPlan.carriedFrom === y) return;
+    ],
+  }), []);
 
-    if (!yPlan) {
-      updatePlanToday(cur => ({ ...tPlan, carriedFrom: y, focusedCount: cur.focusedCount ?? 0, focusedSessions: cur.focusedSessions ?? [] }));
-      return;
+  useEffect(() => () => repo.close(), [repo]);
+
+  /* ---- Storage helpers: write-through ---- */
+  const writePlan = (plan: DayPlan) => {
+    repo.savePlan(plan).catch(() => {});
+  };
+  const writeMeta = (m: DayMeta) => {
+    repo.saveMeta(m).catch(() => {});
+  };
+  const persistGoal = (g: Goal) => {
+    repo.saveGoal(g).catch(() => {});
+  };
+  const updateSettings = (patch: PlannerSettings) => {
+    setSettings(prev => {
+      const next = { ...(prev ?? {}), ...patch, updatedAt: new Date().toISOString() };
+      repo.saveSettings(next).catch(() => {});
+      return next;
+    });
+  };
+
+  // single entry point to update a day's plan and sync
+  const updatePlanOn = (date: string, producer: (cur: DayPlan) => DayPlan) => {
+    setPlans(prev => {
+      const cur = prev[date] || emptyPlan(date);
+      const next = stampPlan(cur, producer(cur));
+      if (next === cur) return prev;
+      const merged = { ...prev, [date]: next };
+      writePlan(next);
+      return merged;
+    });
+  };
+  const updatePlanToday = (producer: (cur: DayPlan) => DayPlan) => updatePlanOn(today, producer);
+
+  // drop trashed tasks past retention from freshly loaded days
+  const purgeLoaded = useCallback((loaded: Record<string, DayPlan>) => {
+    const out = { ...loaded };
+    for (const [d, pl] of Object.entries(loaded)) {
+      const purged = purgeExpiredTasks(pl);
+      if (purged !== pl) { out[d] = stampPlan(pl, purged); repo.savePlan(out[d]).catch(() => {}); }
     }
+    return out;
+  }, [repo]);
+
+  // goals arrive with trashed ones and tombstones mixed in; the planner only ever sees live goals
+  const receiveGoals = (all: Goal[]) => {
+    setGoals(all.filter(g => !isTrashed(g)));
+    setTrashedGoals(all.filter(g => isTrashed(g) && !isPurged(g)));
+    setPurgedGoals(all.filter(isPurged));
+  };
 
-    const flags = yPlan.postponeFlags || {};
-    const toMove = yPlan.tasks.filter(t => flags[t.id] && t.percent < 100);
-    const carryGoalIds = Array.from(new Set(toMove.map(t => t.goalId)));
-    const nextPriorities = [...tPlan.priorities];
-    for (const gid of carryGoalIds) if (!nextPriorities.includes(gid)) nextPriorities.push(gid);
-    const copies: Task[] = toMove.map(t => ({ id: uid(), goalId: t.goalId, title: t.title, how: t.how, percent: 0 }));
+  /* ---- init: upgrade stored data, then this week (plus the carry-over and velocity windows) + today's meta and settings ---- */
+  useEffect(() => {
+    const y = yesterdayStr();
+    const weekStart = startOfWeek(today);
+    const daysBack = (n: number) => { const d = new Date(); d.setDate(d.getDate() - n); return yyyymmdd(d); };
+    const from = [y, weekStart, daysBack(VELOCITY_WINDOW_DAYS), daysBack(CARRY_LOOKBACK_DAYS)].sort()[0];
+    repo.migrate().catch(() => 0).then(() => Promise.all([
+      repo.listGoals(),
+      repo.listPlans(from, endOfWeek(today)),
+      repo.getMeta(today),
+      repo.getSettings().catch(() => undefined),
+    ])).then(([g, p, m, s]) => {
+      setSettings(s);
+      // purge what has sat in the trash past retention
+      const purged = new Map(g.filter(x => x.deletedAt && !isPurged(x) && isExpired(x.deletedAt)).map(x => [x.id, purgeGoal(x)]));
+      purged.forEach(x => { repo.saveGoal(x).catch(() => {}); });
+      receiveGoals(g.map(x => purged.get(x.id) ?? x));
+      setPlans(prev => ({ ...purgeLoaded(p), ...prev }));
+      if (m) setMeta(prev => ({ ...prev, [today]: m }));
+    }).catch(() => {}).finally(() => setReady(true));
+  }, [repo, today, purgeLoaded]);
+
+  /* ---- first sign-in: offer to import signed-out local data ---- */
+  useEffect(() => {
+    if (!ready || repo.kind !== 'firestore') return;
+    diffLocalWithCloud(repo).then((d) => { if (!isEmptyDiff(d)) setImportDiff(d); }).catch(() => {});
+  }, [ready, repo]);
+
+  const resolveImport = async (mode: ImportMode) => {
+    if (!importDiff) return;
+    await importLocalData(repo, importDiff, mode);
+    const dates = importDiff.plans.map(p => p.local.date).sort();
+    setImportDiff(null);
+    if (mode === 'discard' || dates.length === 0) return;
+    const fresh = await repo.listPlans(dates[0], dates[dates.length - 1]);
+    setPlans(prev => ({ ...prev, ...fresh }));
+  };
 
-    updatePlanToday(cur => ({
-      ...tPlan,
-      carriedFrom: y,
-      priorities: nextPriorities,
-      tasks: [...copies, ...tPlan.tasks],
-      focusedCount: cur.focusedCount ?? 0,
-      focusedSessions: cur.focusedSessions ?? [],
-    }));
+  /* ---- calendar feed (signed-in only): republish when goals or focus sessions change ---- */
+  const [feedToken, setFeedToken] = useState<string | null>(null);
+  const feedICS = async () => {
+    const from = new Date(); from.setDate(from.getDate() - 90);
+    return buildICS(goals, await repo.listPlans(yyyymmdd(from), today));
+  };
+  useEffect(() => {
+    const u = auth.currentUser;
+    if (!u || repo.kind !== 'firestore') return;
+    getCalendarFeedToken(requireDb(), u.uid).then(setFeedToken).catch(() => {});
+  }, [repo]);
+  const todaySessions = plans[today]?.focusedSessions;
+  useEffect(() => {
+    const u = auth.currentUser;
+    if (!ready || !feedToken || !u) return;
+    const t = setTimeout(() => {
+      feedICS().then((ics) => publishCalendarFeed(requireDb(), u.uid, feedToken, ics)).catch(() => {});
+    }, 3000);
+    return () => clearTimeout(t);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ready, feedToken, goals, todaySessions]);
+  const feedControls: FeedControls | undefined = repo.kind === 'firestore' ? {
+    token: feedToken,
+    enable: async () => {
+      const u = auth.currentUser; if (!u) return;
+      setFeedToken(await enableCalendarFeed(requireDb(), u.uid, await feedICS()));
+    },
+    disable: async () => {
+      const u = auth.currentUser; if (!u || !feedToken) return;
+      await disableCalendarFeed(requireDb(), u.uid, feedToken);
+      setFeedToken(null);
+    },
+  } : undefined;
+
+  /* ---- auto-carry postponed tasks from the last opened day (merged into anything already planned) ---- */
+  useEffect(() => {
+    if (!ready) return;
+    const source = lastPlanBefore(plans, today) ?? emptyPlan(yesterdayStr());
+    const carried = (p?: DayPlan) => !!p?.carriedFrom && p.carriedFrom >= source.date;
+    if (carried(plans[today])) return;
+    const opts = { keepPartial: prefs.carryPartial, autoPostpone: prefs.autoPostpone };
+    updatePlanToday(cur => (carried(cur) ? cur : carryOver(source, cur, opts)));
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [ready, plans, today]);
 
-  const planToday: DayPlan = plans[today] || { date: today, priorities: [], tasks: [], credits: {}, postponeFlags: {}, focusedCount: 0, focusedSessions: [] };
-  const todayTasks = planToday.tasks;
+  /* ---- instantiate recurring task templates (after carry-over has run for today) ---- */
+  useEffect(() => {
+    if (!ready || !plans[today]?.carriedFrom) return;
+    const workable = goals.filter(g => !isBlocked(g, allGoals));
+    const due = dueTemplateTasks(workable, plans[today]);
+    if (due.length === 0) return;
+    updatePlanToday(cur => {
+      const fresh = dueTemplateTasks(workable, cur);
+      if (fresh.length === 0) return cur;
+      const priorities = [...cur.priorities];
+      for (const t of fresh) if (!priorities.includes(t.goalId)) priorities.push(t.goalId);
+      return { ...cur, priorities, tasks: [...fresh, ...cur.tasks] };
+    });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ready, plans, goals, today]);
+
+  const planToday: DayPlan = plans[today] || emptyPlan(today);
+
+  /* ---- the morning planner can plan any day (tomorrow, the weekend…) ---- */
+  const [planDate, setPlanDate] = useState(today);
+  const planned: DayPlan = plans[planDate] || emptyPlan(planDate);
+  const updatePlanned = (producer: (cur: DayPlan) => DayPlan) => updatePlanOn(planDate, producer);
+  useEffect(() => { setPlanDate(d => (d < today ? today : d)); }, [today]);
+  useEffect(() => {
+    if (!ready || planDate === today) return;
+    repo.getPlan(planDate).then(p => {
+      if (p) setPlans(prev => ({ ...prev, [planDate]: prev[planDate] ? mergePlans(prev[planDate], p) : p }));
+    }).catch(() => {});
+  }, [ready, repo, planDate, today]);
+  const todayTasks = planToday.tasks.filter(t => !allGoals.some(g => g.id === t.goalId && isTrashed(g)));
 
-  /* ========= Goals: CRUD (cloud) ========= */
+  /* ========= Goals: CRUD ========= */
   const addGoal = async (g: Goal) => {
-    const u = auth.currentUser;
-    if (u) {
-      await setDoc(doc(db, 'users', u.uid, 'goals', g.id), g, { merge: true });
-    }
+    await repo.saveGoal(g);
     // optimistic local update (snapshot will also bring it)
-    setGoals(prev => [g, ...prev]);
+    setGoals(prev => [g, ...prev.filter(x => x.id !== g.id)]);
   };
 
-  const removeGoal = async (id: string) => {
-    const u = auth.currentUser;
-    if (u) await deleteDoc(doc(db, 'users', u.uid, 'goals', id));
-    setGoals(prev => prev.filter(x=>x.id!==id));
-    // also clean from today plan
-    updatePlanToday(cur => ({
-      ...cur,
-      priorities: cur.priorities.filter(pid => pid !== id),
-      tasks: cur.tasks.filter(t => t.goalId !== id),
+  // Recoloring an area in one goal recolors the rest of that area.
+  const syncAreaColor = (g: Goal) => {
+    for (const x of recolorArea(goals, g)) updateGoalWith(x.id, cur => ({ ...cur, area: x.area, updatedAt: x.updatedAt }));
+  };
+
+  // Soft delete: the goal stays in storage (history keeps its title) and today's plan is left alone.
+  const removeGoal = (id: string) => {
+    const g = goals.find(x => x.id === id);
+    if (!g) return;
+    const trashed = trashGoal(g);
+    persistGoal(trashed);
+    setGoals(prev => prev.filter(x => x.id !== id));
+    setTrashedGoals(prev => [trashed, ...prev.filter(x => x.id !== id)]);
+    setUndo({ label: `Deleted “${g.title}”`, run: () => restoreGoalDoc(trashed) });
+  };
+  const restoreGoalDoc = (g: Goal) => {
+    const restored = restoreGoal(g);
+    persistGoal(restored);
+    setTrashedGoals(prev => prev.filter(x => x.id !== g.id));
+    setGoals(prev => [...prev.filter(x => x.id !== g.id), restored]);
+  };
+  const purgeGoalDoc = (id: string) => {
+    const g = trashedGoals.find(x => x.id === id);
+    if (!g) return;
+    const tombstone = purgeGoal(g);
+    persistGoal(tombstone);
+    setTrashedGoals(prev => prev.filter(x => x.id !== id));
+    setPurgedGoals(prev => [tombstone, ...prev.filter(x => x.id !== id)]);
+  };
+
+  // Apply edited fields on top of the latest copy so live progress isn't rolled back.
+  const updateGoal = (edited: Goal, progressNote?: string) => {
+    setGoals(prev => {
+      const g = prev.find(x => x.id === edited.id);
+      if (!g) return prev;
+      const { title, note, startDate, targetDate, priority, dailyWeight, updatedAt } = edited;
+      const base: Goal = { ...g, title, note, startDate, targetDate, priority, dailyWeight, updatedAt };
+      if (edited.templates?.length) base.templates = edited.templates; else delete base.templates;
+      if (edited.area) base.area = edited.area; else delete base.area;
+      if (edited.blockedBy?.length) base.blockedBy = edited.blockedBy; else delete base.blockedBy;
+      const updated = recordAdjustment(g, withMilestones(base, mergeMilestoneEdits(g.milestones, edited.milestones ?? [])), today, progressNote || 'Edited milestones');
+      persistGoal(updated);
+      return prev.map(x => x.id === g.id ? updated : x);
+    });
+  };
+
+  const updateGoalWith = (id: string, transition: (g: Goal) => Goal) => {
+    setGoals(prev => {
+      const g = prev.find(x => x.id === id);
+      if (!g) return prev;
+      const updated = transition(g);
+      if (updated === g) return prev;
+      persistGoal(updated);
+      return prev.map(x => x.id === id ? updated : x);
+    });
+  };
+
+  // Switch which milestone a day's credit for a goal goes to, moving what was already credited.
+  const setMilestoneTarget = (goalId: string, milestoneId: string, date: string = planDate) => {
+    const day = plans[date] || emptyPlan(date);
+    const from = day.milestoneTargets?.[goalId];
+    const credit = day.credits?.[goalId] || 0;
+    if (from === milestoneId) return;
+    if (from && credit) {
+      updateGoalWith(goalId, (g) => applyAutoStatus(recordCredit(g, moveMilestoneCredit(g, from, milestoneId, credit), date, isPastDay(date, today)), today));
+    }
+    updatePlanOn(date, cur => ({ ...cur, milestoneTargets: { ...(cur.milestoneTargets || {}), [goalId]: milestoneId } }));
+  };
+
+  /* ========= Recurring templates: pause & skip-once ========= */
+  const editTemplate = (goalId: string, tplId: string, patch: (t: TaskTemplate) => TaskTemplate) =>
+    updateGoalWith(goalId, g => ({
+      ...g,
+      templates: (g.templates ?? []).map(t => (t.id === tplId ? patch(t) : t)),
+      updatedAt: new Date().toISOString(),
     }));
+  const toggleTemplatePause = (goalId: string, tplId: string) =>
+    editTemplate(goalId, tplId, t => ({ ...t, paused: !t.paused }));
+  // Skip today's instance if it hasn't been touched yet, otherwise the next scheduled day.
+  const skipTemplateOnce = (goalId: string, tpl: TaskTemplate) => {
+    const todayId = templateTaskId(tpl.id, today);
+    const inst = planToday.tasks.find(t => t.id === todayId);
+    if (inst && inst.percent === 0) {
+      editTemplate(goalId, tpl.id, t => ({ ...t, skipDates: [...(t.skipDates ?? []).filter(d => d >= today), today] }));
+      updatePlanToday(cur => ({ ...cur, tasks: cur.tasks.filter(t => t.id !== todayId) }));
+    } else {
+      editTemplate(goalId, tpl.id, t => skipNext(t, inst ? tomorrowStr() : today));
+    }
   };
 
   const updateGoalWeight = (id: string, w: number) => {
@@ -603,16 +1780,16 @@ export default function GoalsApp() {
 
   /* ========= Morning Planner ========= */
   const addPriority = (goalId: string) => {
-    updatePlanToday(cur => {
+    updatePlanned(cur => {
       if (cur.priorities.includes(goalId)) return cur;
       return { ...cur, priorities: [...cur.priorities, goalId] };
     });
   };
   const removePriority = (goalId: string) => {
-    updatePlanToday(cur => ({ ...cur, priorities: cur.priorities.filter((g) => g !== goalId) }));
+    updatePlanned(cur => ({ ...cur, priorities: cur.priorities.filter((g) => g !== goalId) }));
   };
   const movePriority = (goalId: string, dir: 'up' | 'down') => {
-    updatePlanToday(cur => {
+    updatePlanned(cur => {
       const idx = cur.priorities.indexOf(goalId);
       if (idx === -1) return cur;
       const to = dir === 'up' ? idx - 1 : idx + 1;
@@ -623,19 +1800,57 @@ export default function GoalsApp() {
     });
   };
 
-  const addTask = (goalId: string, title: string, how?: string) => {
+  // Move a priority (and its untouched tasks) from the planned day to the day after.
+  const deferGoal = (goalId: string) => {
+    const d = new Date(planDate + 'T12:00:00'); d.setDate(d.getDate() + 1);
+    const next = yyyymmdd(d);
+    const moving = planned.tasks.filter(t => t.goalId === goalId && !t.percent);
+    const ids = new Set(moving.map(t => t.id));
+    updatePlanOn(next, cur => ({
+      ...cur,
+      priorities: cur.priorities.includes(goalId) ? cur.priorities : [...cur.priorities, goalId],
+      tasks: [...moving.filter(t => !cur.tasks.some(x => x.id === t.id)), ...cur.tasks],
+    }));
+    updatePlanned(cur => ({
+      ...cur,
+      priorities: cur.priorities.filter(g => g !== goalId),
+      tasks: cur.tasks.filter(t => !ids.has(t.id)),
+    }));
+  };
+
+  // drag-and-drop: `ids` is the new order of the priorities shown (goals that no longer exist stay at the end)
+  const reorderPriorities = (ids: string[]) => {
+    updatePlanned(cur => ({
+      ...cur,
+      priorities: [...ids.filter(id => cur.priorities.includes(id)), ...cur.priorities.filter(id => !ids.includes(id))],
+    }));
+  };
+  const reorderGoalTasks = (goalId: string, ids: string[], date: string = today) => {
+    updatePlanOn(date, cur => reorderTasks(cur, goalId, ids));
+  };
+  const setTaskEstimate = (taskId: string, estimateMin: number | undefined, date: string = today) => {
+    updatePlanOn(date, cur => ({
+      ...cur,
+      tasks: cur.tasks.map(t => {
+        if (t.id !== taskId) return t;
+        const next = { ...t, estimateMin };
+        if (!estimateMin) delete next.estimateMin;
+        return next;
+      }),
+    }));
+  };
+
+  const addTask = (goalId: string, title: string, how?: string, estimateMin?: number) => {
     if (!title.trim()) return;
-    updatePlanToday(cur => {
-      const t: Task = { id: uid(), goalId, title: title.trim(), how, percent: 0 };
+    updatePlanned(cur => {
+      const t: Task = { id: uid(), goalId, title: title.trim(), how, percent: 0, ...(estimateMin ? { estimateMin } : {}) };
       return { ...cur, tasks: [t, ...cur.tasks] };
     });
   };
-  const removeTask = (taskId: string) => {
-    updatePlanToday(cur => {
-      const newTasks = cur.tasks.filter((t) => t.id !== taskId);
-      const { [taskId]: _omit, ...restFlags } = cur.postponeFlags || {};
-      return { ...cur, tasks: newTasks, postponeFlags: restFlags };
-    });
+  const removeTask = (taskId: string, date: string = today) => {
+    const t = plans[date]?.tasks.find(x => x.id === taskId);
+    updatePlanOn(date, cur => trashTask(cur, taskId));
+    if (t) setUndo({ label: `Deleted task “${t.title}”`, run: () => updatePlanOn(date, cur => restoreTask(cur, taskId)) });
   };
 
   /* ========= Task tapping ========= */
@@ -653,37 +1868,31 @@ export default function GoalsApp() {
   };
 
   /* ========= DYNAMIC PROGRESS APPLIER (and persist to cloud) ========= */
-  useEffect(() => {
-    if (!ready) return;
-    const cur = plans[today] || { date: today, priorities: [], tasks: [], credits: {} as Record<string, number>, postponeFlags: {}, focusedCount: 0, focusedSessions: [] };
+  // Moves a day's credits from what `cur` stores to `nextCredits` (earned at `weights`); only the difference is applied to the goals.
+  const applyCredits = (date: string, cur: DayPlan, nextCredits: Record<string, number>, weights: Record<string, number>) => {
     const prevCredits = cur.credits || {};
+    const prevWeights = cur.creditWeights || {};
 
-    const byGoal = new Map<string, Task[]>();
-    for (const t of cur.tasks) {
-      const arr = byGoal.get(t.goalId) || [];
-      arr.push(t);
-      byGoal.set(t.goalId, arr);
+    const differs = (a: Record<string, number>, b: Record<string, number>) => {
+      const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+      for (const k of keys) if ((a[k] || 0) !== (b[k] || 0)) return true;
+      return false;
+    };
+    if (!differs(prevCredits, nextCredits)) {
+      // nothing to credit, but remember the weights the day is priced at
+      if (differs(prevWeights, weights)) updatePlanOn(date, cur2 => ({ ...cur2, creditWeights: weights }));
+      return;
     }
 
-    const nextCredits: Record<string, number> = {};
-    byGoal.forEach((list, gid) => {
-      const g = goals.find(x => x.id === gid);
-      const weight = g?.dailyWeight ?? 5;
-      const avg = Math.round(list.reduce((s, t) => s + t.percent, 0) / list.length); // 0..100
-      const delta = Math.round((avg / 100) * weight); // integer
-      nextCredits[gid] = delta;
-    });
-    Object.keys(prevCredits).forEach(gid => {
-      if (!(gid in nextCredits)) nextCredits[gid] = 0;
+    // goals with milestones credit one of them; remember which, so later diffs land on the same one
+    const targets: Record<string, string> = { ...(cur.milestoneTargets || {}) };
+    goals.forEach(g => {
+      if (hasMilestones(g) && nextCredits[g.id] && !g.milestones!.some(m => m.id === targets[g.id])) {
+        const m = nextMilestone(g);
+        if (m) targets[g.id] = m.id;
+      }
     });
 
-    const changed = (() => {
-      const keys = new Set([...Object.keys(prevCredits), ...Object.keys(nextCredits)]);
-      for (const k of keys) if ((prevCredits[k] || 0) !== (nextCredits[k] || 0)) return true;
-      return false;
-    })();
-    if (!changed) return;
-
     // apply goal progress diffs (and persist)
     setGoals(prev => {
       const updated = prev.map(g => {
@@ -691,7 +1900,10 @@ export default function GoalsApp() {
         const after  = nextCredits[g.id] || 0;
         const diff = after - before;
         if (diff === 0) return g;
-        const out = { ...g, progress: clamp(g.progress + diff, 0, 100), updatedAt: new Date().toISOString() };
+        const credited = hasMilestones(g) && targets[g.id]
+          ? creditMilestone(g, targets[g.id], diff)
+          : { ...g, progress: clamp(g.progress + diff, 0, 100) };
+        const out = applyAutoStatus(recordCredit(g, { ...credited, updatedAt: new Date().toISOString() }, date, isPastDay(date, today)), today);
         persistGoal(out);
         return out;
       });
@@ -699,39 +1911,38 @@ export default function GoalsApp() {
     });
 
     // persist plan credits change
-    updatePlanToday(cur2 => ({ ...cur2, credits: nextCredits }));
+    updatePlanOn(date, cur2 => ({ ...cur2, credits: nextCredits, creditWeights: weights, milestoneTargets: targets }));
+  };
+  useEffect(() => {
+    if (!ready) return;
+    const cur = plans[today] || emptyPlan(today);
+    const weights = planWeights(cur, allGoals);
+    applyCredits(today, cur, dayCredits(cur, weights), weights);
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [ready, plans, goals, today]);
+  }, [ready, plans, allGoals, today]);
+
+  // Edits to a past day from the History dialog: marked, and credited on that day.
+  // Only the goals the edit touched are recomputed, at the weight the day recorded for them.
+  const backfillOn = (date: string, producer: (cur: DayPlan) => DayPlan) => {
+    if (!isPastDay(date, today)) { updatePlanOn(date, producer); return; }
+    const before = plans[date] || emptyPlan(date);
+    const after = producer(before);
+    updatePlanOn(date, cur => markBackfilled(cur, producer(cur)));
+    const { credits, weights } = backfillCredits(before, after, allGoals);
+    applyCredits(date, after, credits, weights);
+  };
 
-  /* ========= Live Firestore listeners (goals, today plan & meta) ========= */
+  /* ========= Live listeners (goals, today plan & meta) ========= */
   useEffect(() => {
-    const u = auth.currentUser;
-    if (!u) return;
-
-    // Goals (live)
-    const goalsQ = query(collection(db, 'users', u.uid, 'goals'), orderBy('createdAt', 'desc'));
-    const unsubGoals = onSnapshot(goalsQ, (snap) => {
-    const arr = snap.docs.map((d) => {
-    const { id: _ignored, ...rest } = d.data() as Goal; 
-    return { id: d.id, ...rest } as Goal;
-  });
-      setGoals(arr);
-    });
-
-    // Today plan (live)
-    const unsubPlan = onSnapshot(doc(db, 'users', u.uid, 'plans', today), (snap) => {
-      const data = snap.data() as DayPlan | undefined;
-      if (data) setPlans(p => ({ ...p, [today]: data }));
+    const unsubGoals = repo.watchGoals(receiveGoals);
+    const unsubPlan = repo.watchPlan(today, (data) => {
+      if (data) setPlans(p => ({ ...p, [today]: p[today] ? mergePlans(p[today], data) : data }));
     });
-
-    // Today meta (live)
-    const unsubMeta = onSnapshot(doc(db, 'users', u.uid, 'meta', today), (snap) => {
-      const data = snap.data() as DayMeta | undefined;
+    const unsubMeta = repo.watchMeta(today, (data) => {
       if (data) setMeta(m => ({ ...m, [today]: data }));
     });
-
     return () => { unsubGoals(); unsubPlan(); unsubMeta(); };
-  }, [today]);
+  }, [repo, today]);
 
   /* ========= Load plans for current calendar month (History) ========= */
   const [calBase, setCalBase] = useState(() => { const d = new Date(); d.setDate(1); return d; });
@@ -741,20 +1952,19 @@ export default function GoalsApp() {
   const lastOfMonth = new Date(calYear, calMonth + 1, 0);
 
   useEffect(() => {
-    const u = auth.currentUser; if (!u) return;
     const startISO = yyyymmdd(firstOfMonth);
     const endISO   = yyyymmdd(lastOfMonth);
-    const plansRef = collection(db, 'users', u.uid, 'plans');
-    const qy = query(plansRef, where('date','>=', startISO), where('date','<=', endISO));
-    getDocs(qy).then((snap) => {
-      const merged: Record<string, DayPlan> = {};
-      snap.forEach((d) => {
-        const data = d.data() as DayPlan;
-        merged[data.date] = data;
-      });
-      setPlans(prev => ({ ...prev, ...merged }));
+    repo.listPlans(startISO, endISO).then((merged) => {
+      setPlans(prev => ({ ...prev, ...purgeLoaded(merged) }));
     }).catch(() => {});
-  }, [calYear, calMonth]); // when you flip months, fetch once
+  }, [repo, calYear, calMonth, purgeLoaded]); // when you flip months, fetch once
+
+  // reflections aren't loaded per month; fetch the opened day's so it can be shown and backfilled
+  useEffect(() => {
+    if (!histDate || meta[histDate]) return;
+    repo.getMeta(histDate).then(m => { if (m) setMeta(prev => ({ ...prev, [histDate]: prev[histDate] ?? m })); }).catch(() => {});
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [repo, histDate]);
 
   /* ========= Stats / Widgets ========= */
   const todayByGoal = useMemo(() => {
@@ -767,7 +1977,27 @@ export default function GoalsApp() {
   }, [todayTasks]);
 
   const prioritiesList = (planToday.priorities.map((id) => goals.find((g) => g.id === id)).filter(Boolean) as Goal[]);
-  const nonPriorities = goals.filter((g) => !planToday.priorities.includes(g.id) && g.status === 'Active');
+  const areas = useMemo(() => listAreas(allGoals), [allGoals]);
+  const visibleGoals = goals.filter((g) => (statusFilter === 'All' || g.status === statusFilter) && matchesArea(g, listArea));
+  const prioritiesPlanned = (planned.priorities.map((id) => goals.find((g) => g.id === id)).filter(Boolean) as Goal[]);
+  // daily capacity: what the planned day holds vs. the setting, and which priorities to defer when it's over
+  const capacity = (() => {
+    const unit = prefs.capacityUnit;
+    const limit = capacityLoad(prefs.capacity, unit);
+    const candidates = prioritiesPlanned.map((g) => ({
+      goal: g,
+      load: goalLoad(planned, g, unit),
+      urgency: requiredAvgWithCurrentWeight(clamp(100 - g.progress, 0, 100), daysLeftInclusive(planDate, g.targetDate), g.dailyWeight ?? 5),
+      started: planned.tasks.some((t) => t.goalId === g.id && creditPercent(t) > 0),
+    }));
+    const total = candidates.reduce((s, c) => s + c.load, 0);
+    const unestimated = planned.tasks.filter((t) => planned.priorities.includes(t.goalId) && !hasEstimate(t)).length;
+    return { unit, limit, total, unestimated, defer: limit > 0 ? suggestDeferrals(candidates, limit) : [] };
+  })();
+  const nonPriorities = goals.filter((g) => !planned.priorities.includes(g.id) && g.status === 'Active' && !isBlocked(g, allGoals));
+  const blockedAvailable = goals.filter((g) => !planned.priorities.includes(g.id) && g.status === 'Active' && isBlocked(g, allGoals));
+  // when a prerequisite should be done: its forecast at the current pace, else its target date
+  const expectedFinish = (p: Goal) => forecastGoal(p, plans, today)?.projected ?? p.targetDate;
 
   const weekStats = useMemo(() => {
     const start = startOfWeek(today);
@@ -777,6 +2007,8 @@ export default function GoalsApp() {
     let actual = 0;
     let max = 0;
     const perGoalAgg = new Map<string, { title: string; actual: number; max: number }>();
+    // per-area totals ignore the filter, so a starving area stays visible
+    const perAreaAgg = new Map<string, { name: string; color: string; actual: number; max: number }>();
 
     for (const day of days) {
       const dayPlan = plans[day];
@@ -790,10 +2022,17 @@ export default function GoalsApp() {
       }
 
       byGoal.forEach((list, gid) => {
-        const g = goals.find((x) => x.id === gid);
+        const g = allGoals.find((x) => x.id === gid);
         const weight = g?.dailyWeight ?? 5;
-        const avg = Math.round(list.reduce((s, t) => s + t.percent, 0) / list.length);
-        const delta = Math.round((avg / 100) * weight);
+        const delta = Math.round((weightedPercent(list, creditPercent) / 100) * weight);
+
+        const areaKey = areaName(g).toLowerCase();
+        const area = perAreaAgg.get(areaKey) || { name: g?.area?.name ?? 'No area', color: g?.area?.color ?? '#94a3b8', actual: 0, max: 0 };
+        area.actual += delta;
+        area.max += weight;
+        perAreaAgg.set(areaKey, area);
+
+        if (!matchesArea(g, weekArea)) return;
         actual += delta;
         max += weight;
 
@@ -816,55 +2055,53 @@ export default function GoalsApp() {
       }))
       .sort((a, b) => b.actual - a.actual);
 
-    return { start, end, actual, max, percent, perGoal };
-  }, [plans, goals, today]);
+    const perArea = Array.from(perAreaAgg.entries())
+      .map(([key, v]) => ({ key, ...v, percent: v.max ? Math.round((v.actual / v.max) * 100) : 0 }))
+      .sort((a, b) => b.actual - a.actual);
+
+    return { start, end, actual, max, percent, perGoal, perArea };
+  }, [plans, allGoals, today, weekArea]);
 
   const dayStats = useMemo(() => {
     const total = todayTasks.length;
     const done = todayTasks.filter((t) => t.percent === 100).length;
-    const avg = total ? Math.round(todayTasks.reduce((s, t) => s + t.percent, 0) / total) : 0;
+    const avg = weightedPercent(todayTasks);
     return { total, done, avg };
   }, [todayTasks]);
 
   const perGoalToday = useMemo(() => {
     return prioritiesList.map((g) => {
       const list = todayByGoal.get(g.id) || [];
-      const avg = list.length ? Math.round(list.reduce((s, t) => s + t.percent, 0) / list.length) : 0;
-      const delta = Math.round((avg / 100) * (g.dailyWeight ?? 5));
+      const avg = weightedPercent(list);
+      const delta = Math.round((weightedPercent(list, creditPercent) / 100) * (g.dailyWeight ?? 5));
       const projected = clamp(g.progress, 0, 100); // progress is applied live
       return { goal: g, avg, delta, projected };
     });
   }, [prioritiesList, todayByGoal, goals]);
 
-  const streak = useMemo(() => {
-    let c = 0;
-    const d = new Date();
-    for (;;) {
-      const key = yyyymmdd(d);
-      const pl = plans[key];
-      const didWork = !!pl && pl.tasks.some(t => t.percent > 0);
-      if (didWork) { c++; d.setDate(d.getDate() - 1); } else break;
-    }
-    return c;
-  }, [plans]);
+  const streak = useMemo(() => streakDays(plans, today), [plans, today]);
 
   /* ========= Reflection (auto-save) ========= */
   const metaToday = meta[today] || { date: today } as DayMeta;
-  const setMetaField = <K extends keyof DayMeta>(key: K, value: DayMeta[K]) => {
+  const setMetaFieldOn = <K extends keyof DayMeta>(date: string, key: K, value: DayMeta[K]) => {
     setMeta(prev => {
-      const next: DayMeta = { ...(prev[today] || { date: today }), date: today, [key]: value } as DayMeta;
-      const merged = { ...prev, [today]: next };
-      writeMetaToCloud(today, next);
+      const next: DayMeta = {
+        ...(prev[date] || { date }), date, [key]: value,
+        ...(isPastDay(date, today) ? { backfilledAt: new Date().toISOString() } : {}),
+      } as DayMeta;
+      const merged = { ...prev, [date]: next };
+      writeMeta(next);
       return merged;
     });
   };
+  const setMetaField = <K extends keyof DayMeta>(key: K, value: DayMeta[K]) => setMetaFieldOn(today, key, value);
 
   /* ========= History helpers ========= */
-  const dayAverageFor = (isoDate: string) => {
+  const dayAverageFor = (isoDate: string, area: AreaFilter = null) => {
     const pl = plans[isoDate];
-    if (!pl || pl.tasks.length === 0) return null;
-    const avg = Math.round(pl.tasks.reduce((s, t) => s + t.percent, 0) / pl.tasks.length);
-    return avg;
+    const tasks = (pl?.tasks || []).filter(t => matchesArea(allGoals.find(g => g.id === t.goalId), area));
+    if (tasks.length === 0) return null;
+    return weightedPercent(tasks);
   };
 
   const firstOfMonthState = new Date(calYear, calMonth, 1);
@@ -881,12 +2118,12 @@ export default function GoalsApp() {
       d.setDate(gridStart.getDate() + i);
       const iso = yyyymmdd(d);
       const inMonth = d.getMonth() === calMonth;
-      const avg = dayAverageFor(iso);
+      const avg = dayAverageFor(iso, historyArea);
       cells.push({ iso, inMonth, avg });
     }
     return cells;
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [plans, calYear, calMonth]);
+  }, [plans, calYear, calMonth, historyArea, allGoals]);
 
   const colorForAvg = (avg: number | null) => {
     if (avg === null) return 'bg-muted';
@@ -924,7 +2161,15 @@ export default function GoalsApp() {
           <CardTitle className="flex items-center justify-between">
             <span>Today Overview</span>
             <div className="flex gap-2">
-              <Button variant="outline" size="sm" onClick={()=>setGoalOpen(true)}><SquarePlus className="h-4 w-4 mr-1" />Add Goal</Button>
+              <Button variant="outline" size="sm" onClick={()=>setExportOpen(true)}><FileDown className="h-4 w-4 mr-1" />Export</Button>
+              <Button variant="outline" size="sm" onClick={()=>setSettingsOpen(true)}><SettingsIcon className="h-4 w-4 mr-1" />Settings</Button>
+              {repo.kind === 'firestore' && (
+                <Button variant="outline" size="sm" onClick={()=>setBackupOpen(true)}><Download className="h-4 w-4 mr-1" />Backup</Button>
+              )}
+              <Button variant="outline" size="sm" onClick={()=>setTrashOpen(true)}>
+                <Trash2 className="h-4 w-4 mr-1" />Trash{trashedGoals.length ? ` (${trashedGoals.length})` : ''}
+              </Button>
+              <Button variant="outline" size="sm" onClick={()=>{ setEditingGoal(null); setGoalOpen(true); }}><SquarePlus className="h-4 w-4 mr-1" />Add Goal</Button>
             </div>
           </CardTitle>
         </CardHeader>
@@ -970,6 +2215,7 @@ export default function GoalsApp() {
               })()}
             </span>
           </CardTitle>
+          <AreaFilterBar areas={areas} value={weekArea} onChange={setWeekArea} />
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="grid gap-4 md:grid-cols-4 items-center">
@@ -1003,25 +2249,56 @@ export default function GoalsApp() {
               </div>
             </div>
           </div>
+          {areas.length > 0 && weekStats.perArea.length > 0 && (
+            <div className="p-3 rounded-lg border">
+              <div className="text-xs text-muted-foreground mb-2">Points by area this week</div>
+              <div className="flex h-3 w-full overflow-hidden rounded">
+                {weekStats.perArea.filter(a => a.actual > 0).map(a => (
+                  <div key={a.key} style={{ width: `${(a.actual / Math.max(1, weekStats.perArea.reduce((s, x) => s + x.actual, 0))) * 100}%`, background: a.color }} title={`${a.name}: ${a.actual} pts`} />
+                ))}
+              </div>
+              <div className="mt-2 grid gap-1 sm:grid-cols-2 text-xs">
+                {weekStats.perArea.map(a => (
+                  <div key={a.key} className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-1.5 truncate"><AreaDot color={a.color} />{a.name}</span>
+                    <span className="text-muted-foreground">{a.actual}/{a.max} pts • {a.percent}%</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {/* Long-term goals (with Deadline Helper) */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <ListChecks className="h-5 w-5" /> Long-term goals
+          <CardTitle className="flex items-center justify-between flex-wrap gap-2">
+            <span className="flex items-center gap-2"><ListChecks className="h-5 w-5" /> Long-term goals</span>
+            <div className="flex gap-1">
+              {(['All', 'Active', 'Paused', 'Completed', 'Dropped'] as const).map((st) => (
+                <Button key={st} variant={statusFilter === st ? 'default' : 'outline'} size="sm" onClick={() => setStatusFilter(st)}>
+                  {st}{st !== 'All' ? ` (${goals.filter(g => g.status === st).length})` : ''}
+                </Button>
+              ))}
+            </div>
           </CardTitle>
+          <AreaFilterBar areas={areas} value={listArea} onChange={setListArea} />
         </CardHeader>
         <CardContent className="grid gap-3 md:grid-cols-2">
-          {goals.map((g) => {
-            const daysLeft = daysLeftInclusive(today, g.targetDate);
+          {visibleGoals.map((g) => {
+            // a blocked goal only gets the days left once its prerequisites are expected to finish
+            const blockers = blockersOf(g, allGoals);
+            const startFrom = blockers.length ? availableFrom(g, allGoals, today, expectedFinish) : today;
+            const daysLeft = daysLeftInclusive(startFrom, g.targetDate);
             const overdue = daysOverdue(today, g.targetDate);
             const remaining = clamp(100 - g.progress, 0, 100);
             const weight = g.dailyWeight ?? 5;
             const reqAvg = requiredAvgWithCurrentWeight(remaining, daysLeft, weight);
 
-            const typical = 70;
+            // the user's own recent pace, when there's enough history; otherwise assume a typical 70% day
+            const fc = g.status === 'Active' && !blockers.length ? forecastGoal(g, plans, today) : null;
+            const typical = fc && fc.avgPercent > 0 ? fc.avgPercent : 70;
             const suggestedW = suggestedWeightToHit(remaining, daysLeft, typical);
             const impossibleWithCurrent = daysLeft > 0 && reqAvg > 100;
 
@@ -1029,7 +2306,12 @@ export default function GoalsApp() {
               <div key={g.id} className="p-3 rounded-lg border">
                 <div className="flex items-center justify-between">
                   <div className="font-medium">{g.title}</div>
-                  <Badge variant={g.priority === 'High' ? 'default' : 'secondary'}>{g.priority}</Badge>
+                  <div className="flex gap-1">
+                    {g.area && <Badge variant="outline"><AreaDot color={g.area.color} />{g.area.name}</Badge>}
+                    {g.status !== 'Active' && <Badge variant="outline">{g.status}</Badge>}
+                    {blockers.length > 0 && g.status === 'Active' && <Badge variant="destructive"><Lock className="h-3 w-3 mr-1" />Blocked</Badge>}
+                    <Badge variant={g.priority === 'High' ? 'default' : 'secondary'}>{g.priority}</Badge>
+                  </div>
                 </div>
                 <div className="text-xs text-muted-foreground mt-1">{g.note}</div>
                 <div className="text-xs text-muted-foreground flex items-center gap-2 mt-1">
@@ -1043,9 +2325,69 @@ export default function GoalsApp() {
                   <Progress value={g.progress} />
                 </div>
 
+                {hasMilestones(g) && (
+                  <div className="mt-2 space-y-1">
+                    {g.milestones!.map((m) => (
+                      <div key={m.id} className="text-xs">
+                        <div className="flex justify-between gap-2">
+                          <span className="truncate">
+                            {m.progress >= 100 ? '✓ ' : ''}{m.title}
+                            <span className="text-muted-foreground"> • w{m.weight}{m.targetDate ? ` • due ${m.targetDate}` : ''}</span>
+                          </span>
+                          <span className={m.progress < 100 && m.targetDate && m.targetDate < today ? 'text-red-500' : ''}>{m.progress}%</span>
+                        </div>
+                        <Progress value={m.progress} className="h-1" />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <BurnUpChart goal={g} today={today} />
+                <ProgressLog goal={g} />
+
+                {(g.templates?.length ?? 0) > 0 && (
+                  <div className="mt-2 space-y-1">
+                    {g.templates!.map((t) => {
+                      const next = nextOccurrence(t, planToday.tasks.some(x => x.id === templateTaskId(t.id, today)) ? tomorrowStr() : today);
+                      return (
+                        <div key={t.id} className="flex items-center justify-between gap-2 text-xs">
+                          <span className="truncate">
+                            <Repeat className="inline h-3 w-3 mr-1" />{t.title}
+                            <span className="text-muted-foreground"> • {describeSchedule(t.schedule)} • {t.paused ? 'paused' : next ? `next ${next}` : 'never'}</span>
+                          </span>
+                          <div className="flex gap-1 shrink-0">
+                            <Button variant="ghost" size="sm" onClick={()=>toggleTemplatePause(g.id, t.id)}>
+                              {t.paused ? <Play className="h-3.5 w-3.5" /> : <Pause className="h-3.5 w-3.5" />}
+                            </Button>
+                            <Button variant="ghost" size="sm" disabled={t.paused || !next} onClick={()=>skipTemplateOnce(g.id, t)}>
+                              <SkipForward className="h-3.5 w-3.5 mr-1" />Skip
+                            </Button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
                 <div className="mt-3 p-2 rounded-md border">
-                  {remaining <= 0 ? (
-                    <div className="text-xs text-muted-foreground">Goal completed 🎉</div>
+                  {blockers.length > 0 && g.status === 'Active' && (
+                    <div className="text-xs mb-2">
+                      <Lock className="inline h-3 w-3 mr-1" />
+                      Waiting on {blockers.map(b => `“${b.title}”`).join(', ')}
+                      {blockers.some(b => b.status === 'Dropped') && <span className="text-red-500"> (a prerequisite was dropped)</span>}
+                      {startFrom > g.targetDate
+                        ? <span className="text-red-500"> — prerequisites are expected to finish after this goal’s target.</span>
+                        : <span className="text-muted-foreground"> — expected free from {startFrom}, leaving {daysLeft} day{daysLeft === 1 ? '' : 's'}.</span>}
+                    </div>
+                  )}
+                  {g.status === 'Dropped' ? (
+                    <div className="text-xs text-muted-foreground">Dropped{g.droppedAt ? ` on ${g.droppedAt}` : ''}: {g.dropReason}</div>
+                  ) : g.status === 'Completed' || remaining <= 0 ? (
+                    <div className="text-xs text-muted-foreground">Goal completed{g.completedAt ? ` on ${g.completedAt}` : ''} 🎉</div>
+                  ) : g.status === 'Paused' ? (
+                    <div className="text-xs text-muted-foreground">
+                      Paused since {g.pausedAt} — deadline helper frozen. Resuming today moves the target to <span className="font-medium">{effectiveTargetDate(g, today)}</span>.
+                    </div>
                   ) : overdue > 0 ? (
                     <div className="text-xs text-red-500">Past deadline by {overdue} day{overdue>1?'s':''}. Remaining {remaining}%.</div>
                   ) : (
@@ -1063,13 +2405,55 @@ export default function GoalsApp() {
                       <div className="text-xs mt-1">
                         Try weight&nbsp;
                         <span className="font-medium">{suggestedW}%</span>
+                        <span className="text-muted-foreground"> (at your {typical}% average)</span>
                         &nbsp;<Button size="sm" className="ml-2" onClick={()=>updateGoalWeight(g.id, suggestedW)}>Apply</Button>
                       </div>
                     </>
                   )}
+                  {fc && remaining > 0 && (
+                    <div className="text-xs mt-2 flex flex-wrap items-center gap-2">
+                      <span className={`px-1.5 py-0.5 rounded font-medium ${FORECAST_STYLE[fc.status]}`}>{fc.status}</span>
+                      <span>Pace {fc.velocity}%/day over {fc.days}d</span>
+                      <span>
+                        • Projected {fc.projected ?? 'never at this pace'}
+                        {fc.projected && <span className="text-muted-foreground"> ({fc.earliest} – {fc.latest ?? 'open-ended'})</span>}
+                      </span>
+                    </div>
+                  )}
                 </div>
 
-                <div className="mt-2 flex justify-end gap-2">
+                <div className="mt-2 flex flex-wrap justify-end gap-2">
+                  {g.status === 'Active' && (
+                    <>
+                      <Button variant="outline" size="sm" onClick={()=>updateGoalWith(g.id, (x) => pauseGoal(x, today))}>
+                        <Pause className="h-4 w-4 mr-1" />Pause
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={()=>updateGoalWith(g.id, (x) => completeGoal(x, today))}>
+                        <CheckCircle2 className="h-4 w-4 mr-1" />Complete
+                      </Button>
+                    </>
+                  )}
+                  {g.status === 'Paused' && (
+                    <Button variant="outline" size="sm" onClick={()=>updateGoalWith(g.id, (x) => resumeGoal(x, today))}>
+                      <Play className="h-4 w-4 mr-1" />Resume
+                    </Button>
+                  )}
+                  {(g.status === 'Active' || g.status === 'Paused') && (
+                    <Button variant="outline" size="sm" onClick={()=>setDroppingGoal(g)}>
+                      <Ban className="h-4 w-4 mr-1" />Drop
+                    </Button>
+                  )}
+                  {(g.status === 'Completed' || g.status === 'Dropped') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={!canReopen(g)}
+                      title={canReopen(g) ? undefined : 'At 100% it would complete again right away; lower its progress first.'}
+                      onClick={()=>updateGoalWith(g.id, reopenGoal)}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />Reopen
+                    </Button>
+                  )}
                   <Button
                     variant="outline"
                     size="sm"
@@ -1084,6 +2468,12 @@ export default function GoalsApp() {
                   >
                     +5% weight
                   </Button>
+                  <Button variant="outline" size="sm" onClick={()=>setAdjustingGoal(g)}>
+                    <SlidersHorizontal className="h-4 w-4 mr-1" />Adjust
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={()=>{ setEditingGoal(g); setGoalOpen(true); }}>
+                    <Pencil className="h-4 w-4 mr-1" />Edit
+                  </Button>
                   <Button variant="destructive" size="sm" onClick={()=>removeGoal(g.id)}>
                     <Trash2 className="h-4 w-4 mr-1" />Remove
                   </Button>
@@ -1092,40 +2482,62 @@ export default function GoalsApp() {
             );
           })}
           {goals.length === 0 && <div className="text-xs text-muted-foreground">No goals yet—add one above.</div>}
+          {goals.length > 0 && visibleGoals.length === 0 && <div className="text-xs text-muted-foreground">No matching goals.</div>}
         </CardContent>
       </Card>
 
       {/* Morning planner */}
       <Card>
-        <CardHeader><CardTitle>Morning plan — pick goals & tasks</CardTitle></CardHeader>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle>{planDate === today ? 'Morning plan' : `Plan for ${planDate}`} — pick goals & tasks</CardTitle>
+            <div className="flex items-center gap-2">
+              <Button variant={planDate === today ? 'default' : 'outline'} size="sm" onClick={() => setPlanDate(today)}>Today</Button>
+              <Button variant={planDate === tomorrowStr() ? 'default' : 'outline'} size="sm" onClick={() => setPlanDate(tomorrowStr())}>Tomorrow</Button>
+              <Input type="date" className="h-8 w-40" value={planDate} min={today} onChange={(e) => e.target.value && setPlanDate(e.target.value < today ? today : e.target.value)} />
+            </div>
+          </div>
+        </CardHeader>
         <CardContent className="space-y-4">
           <div className="space-y-2">
-            <Label className="text-sm">Today’s priorities (top to bottom)</Label>
-            {planToday.priorities.length === 0 && <div className="text-xs text-muted-foreground">Pick from “Available goals” below.</div>}
-            <div className="space-y-2">
-              {planToday.priorities.map((gid, idx) => {
-                const g = goals.find(x=>x.id===gid);
-                if (!g) return null;
-                const daysLeft = daysLeftInclusive(today, g.targetDate);
+            <Label className="text-sm">{planDate === today ? 'Today’s' : 'That day’s'} priorities (top to bottom)</Label>
+            {planned.priorities.length === 0 && <div className="text-xs text-muted-foreground">Pick from “Available goals” below.</div>}
+            <SortableList ids={prioritiesPlanned.map(g => g.id)} onReorder={reorderPriorities} className="space-y-2">
+              {(gid, grip) => {
+                const g = prioritiesPlanned.find(x=>x.id===gid)!;
+                const idx = prioritiesPlanned.indexOf(g);
+                const daysLeft = daysLeftInclusive(planDate, g.targetDate);
                 const remaining = clamp(100 - g.progress, 0, 100);
                 const reqAvgToday = requiredAvgWithCurrentWeight(remaining, daysLeft, g.dailyWeight ?? 5);
 
                 return (
-                  <div key={gid} className="flex items-center justify-between p-2 rounded-md border">
+                  <div className="flex items-center justify-between p-2 rounded-md border">
                     <div className="flex items-center gap-2">
+                      {grip}
                       <span className="text-xs px-2 py-0.5 rounded bg-muted">{idx + 1}</span>
                       <span className="font-medium">{g.title}</span>
+                      {isBlocked(g, allGoals) && <span className="text-[11px] text-red-500 flex items-center"><Lock className="h-3 w-3 mr-0.5" />blocked</span>}
                     </div>
                     <div className="flex items-center gap-3">
-                      <span className="text-[11px] text-muted-foreground">Target today ≈ {reqAvgToday}% avg</span>
+                      <span className="text-[11px] text-muted-foreground">{planDate === today ? 'Target today' : 'Target that day'} ≈ {reqAvgToday}% avg</span>
                       <Button variant="outline" size="icon" onClick={() => movePriority(gid, 'up')}><ChevronUp className="h-4 w-4" /></Button>
                       <Button variant="outline" size="icon" onClick={() => movePriority(gid, 'down')}><ChevronDown className="h-4 w-4" /></Button>
                       <Button variant="destructive" size="icon" onClick={() => removePriority(gid)}><Trash2 className="h-4 w-4" /></Button>
                     </div>
                   </div>
                 );
-              })}
-            </div>
+              }}
+            </SortableList>
+            {capacity.limit > 0 && (
+              <CapacityMeter
+                unit={capacity.unit}
+                total={capacity.total}
+                limit={capacity.limit}
+                unestimated={capacity.unestimated}
+                defer={capacity.defer.map(c => c.goal)}
+                onDefer={deferGoal}
+              />
+            )}
           </div>
 
           <div className="space-y-2">
@@ -1138,26 +2550,41 @@ export default function GoalsApp() {
                 <div className="text-xs text-muted-foreground">All active goals selected.</div>
               )}
             </div>
+            {blockedAvailable.length > 0 && (
+              <div className="space-y-1">
+                {blockedAvailable.map((g) => (
+                  <div key={g.id} className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Lock className="h-3 w-3" />
+                    <span className="truncate">{g.title} — blocked by {blockersOf(g, allGoals).map(b => b.title).join(', ')}</span>
+                    <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => addPriority(g.id)}>Plan anyway</Button>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
           <Separator />
 
           {/* Add tasks per selected goal */}
           <div className="space-y-4">
-            {planToday.priorities.map((gid) => {
+            {planned.priorities.map((gid) => {
               const g = goals.find(x=>x.id===gid);
               if (!g) return null;
               return (
                 <GoalTasksEditor
                   key={gid}
                   goal={g}
-                  tasks={(plans[today]?.tasks || []).filter(t=>t.goalId===gid)}
+                  tasks={goalTasks(planned, gid)}
+                  milestoneId={planned.milestoneTargets?.[gid] ?? nextMilestone(g)?.id}
                   onAdd={addTask}
-                  onRemove={removeTask}
+                  onRemove={(taskId) => removeTask(taskId, planDate)}
+                  onReorder={(ids) => reorderGoalTasks(gid, ids, planDate)}
+                  onEstimate={(taskId, min) => setTaskEstimate(taskId, min, planDate)}
+                  onSelectMilestone={setMilestoneTarget}
                 />
               );
             })}
-            {planToday.priorities.length === 0 && <div className="text-xs text-muted-foreground">Select at least one goal to add tasks for today.</div>}
+            {planned.priorities.length === 0 && <div className="text-xs text-muted-foreground">Select at least one goal to add tasks for this day.</div>}
           </div>
         </CardContent>
       </Card>
@@ -1168,8 +2595,8 @@ export default function GoalsApp() {
         <CardContent className="space-y-6">
           {planToday.priorities.map((gid) => {
             const g = goals.find(x=>x.id===gid); if (!g) return null;
-            const list = (plans[today]?.tasks || []).filter(t=>t.goalId===gid);
-            const avg = list.length ? Math.round(list.reduce((s, t) => s + t.percent, 0) / list.length) : 0;
+            const list = goalTasks(planToday, gid);
+            const avg = weightedPercent(list);
             return (
               <div key={gid} className="space-y-2">
                 <div className="flex items-center justify-between">
@@ -1178,11 +2605,19 @@ export default function GoalsApp() {
                 </div>
                 <Progress value={avg} />
                 {list.length === 0 && <div className="text-xs text-muted-foreground">No tasks added for this goal.</div>}
-                {list.map((t)=>(
-                  <div key={t.id} className="flex items-center justify-between p-2 rounded-md border">
-                    <div className="min-w-0">
-                      <div className="font-medium truncate">{t.title}</div>
-                      {t.how ? <div className="text-xs text-muted-foreground truncate">How: {t.how}</div> : null}
+                <SortableList ids={list.map(t => t.id)} onReorder={(ids) => reorderGoalTasks(gid, ids)} className="space-y-2">
+                  {(taskId, grip) => { const t = list.find(x => x.id === taskId)!; return (
+                  <div className="flex items-center justify-between p-2 rounded-md border">
+                    <div className="flex items-center gap-2 min-w-0">
+                      {grip}
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">
+                          {t.title}
+                          {t.estimateMin ? <span className="ml-2 text-xs font-normal text-muted-foreground">~{formatEstimate(t.estimateMin)}</span> : null}
+                          <PostponedBadge task={t} warnAt={prefs.postponeWarnAt} />
+                        </div>
+                        {t.how ? <div className="text-xs text-muted-foreground truncate">How: {t.how}</div> : null}
+                      </div>
                     </div>
                     <div className="flex items-center gap-2">
                       <Button variant="outline" size="icon" onClick={()=>incTask(t.id, -5)} aria-label="decrease"><Minus className="h-4 w-4" /></Button>
@@ -1194,7 +2629,8 @@ export default function GoalsApp() {
                       <Button variant="destructive" size="icon" onClick={()=>removeTask(t.id)}><Trash2 className="h-4 w-4" /></Button>
                     </div>
                   </div>
-                ))}
+                  ); }}
+                </SortableList>
               </div>
             );
           })}
@@ -1212,10 +2648,11 @@ export default function GoalsApp() {
           {todayTasks.some(t=>t.percent<100) && (
             <div className="rounded-md border p-3">
               <div className="text-sm font-medium mb-2">Incomplete today — move to tomorrow?</div>
+              {prefs.autoPostpone && <div className="text-xs text-muted-foreground mb-2">Unfinished tasks move on automatically; untick any to leave them here.</div>}
               <div className="space-y-2">
                 {todayTasks.filter(t=>t.percent<100).map(t => {
                   const g = goals.find(x=>x.id===t.goalId);
-                  const checked = !!(planToday.postponeFlags && planToday.postponeFlags[t.id]);
+                  const checked = isPostponed(planToday, t, prefs.autoPostpone);
                   return (
                     <label key={t.id} className="flex items-center gap-2 text-sm">
                       <input
@@ -1229,6 +2666,7 @@ export default function GoalsApp() {
                       />
                       <span className="font-medium">{t.title}</span>
                       <span className="text-xs text-muted-foreground">({g?.title})</span>
+                      <PostponedBadge task={t} warnAt={prefs.postponeWarnAt} />
                     </label>
                   );
                 })}
@@ -1297,6 +2735,7 @@ export default function GoalsApp() {
               }}>Next {'›'}</Button>
             </div>
           </CardTitle>
+          <AreaFilterBar areas={areas} value={historyArea} onChange={setHistoryArea} />
         </CardHeader>
         <CardContent className="space-y-3">
           <div className="grid grid-cols-7 text-xs text-muted-foreground mb-1">
@@ -1307,7 +2746,7 @@ export default function GoalsApp() {
               <button
                 key={iso}
                 disabled={!inMonth}
-                onClick={() => { setHistDate(iso); setHistOpen(true); }}
+                onClick={() => { setHistDate(iso); setHistEditing(false); setHistOpen(true); }}
                 className={`aspect-square rounded-lg flex items-center justify-center text-sm font-medium
                   ${inMonth ? colorForAvg(avg) : 'bg-muted text-muted-foreground opacity-50 cursor-default'}
                   ${inMonth ? 'hover:opacity-90 transition' : ''}
@@ -1331,11 +2770,30 @@ export default function GoalsApp() {
       <Dialog open={histOpen} onOpenChange={(v)=> setHistOpen(v)}>
         <DialogContent className="sm:max-w-2xl">
           <DialogHeader>
-            <DialogTitle>Day details — {histDate}</DialogTitle>
+            <DialogTitle className="flex items-center justify-between gap-2 pr-6">
+              <span>Day details — {histDate}</span>
+              {histDate && isPastDay(histDate, today) && (
+                <Button variant={histEditing ? 'default' : 'outline'} size="sm" onClick={() => setHistEditing(v => !v)}>
+                  <Pencil className="h-4 w-4 mr-1" />{histEditing ? 'Done' : 'Backfill'}
+                </Button>
+              )}
+            </DialogTitle>
           </DialogHeader>
-          {histDate && (() => {
+          {histDate && histEditing && (
+            <BackfillDay
+              plan={plans[histDate] || emptyPlan(histDate)}
+              meta={meta[histDate] || { date: histDate }}
+              goals={allGoals.filter(g => !g.deletedAt)}
+              onChange={(producer) => backfillOn(histDate, producer)}
+              onRemoveTask={(taskId) => backfillOn(histDate, cur => trashTask(cur, taskId))}
+              onSelectMilestone={(goalId, milestoneId) => setMilestoneTarget(goalId, milestoneId, histDate)}
+              onMeta={(key, value) => setMetaFieldOn(histDate, key, value)}
+            />
+          )}
+          {histDate && !histEditing && (() => {
             const pl = plans[histDate];
             if (!pl) return <div className="text-xs text-muted-foreground">No plan recorded.</div>;
+            const late = backfilledTasks(pl).length;
             const avg = dayAverageFor(histDate);
             const grouped = new Map<string, Task[]>();
             for (const t of pl.tasks) {
@@ -1351,12 +2809,13 @@ export default function GoalsApp() {
                     {avg === null ? 'No tasks logged.' : `Average completion: ${avg}%`}
                     {' • '}Focused sessions: {pl.focusedCount ?? 0}
                   </div>
+                  {late > 0 && <div className="text-xs text-amber-600">{late} task{late === 1 ? '' : 's'} backfilled after the day</div>}
                 </div>
 
                 <div className="space-y-3">
                   {[...grouped.entries()].map(([gid, list]) => {
-                    const g = goals.find(x=>x.id===gid);
-                    const gAvg = list.length ? Math.round(list.reduce((s,t)=>s+t.percent,0)/list.length) : 0;
+                    const g = allGoals.find(x=>x.id===gid);
+                    const gAvg = weightedPercent(list);
                     return (
                       <div key={gid} className="p-3 rounded-md border">
                         <div className="flex items-center justify-between">
@@ -1366,7 +2825,7 @@ export default function GoalsApp() {
                         <div className="mt-2 space-y-1">
                           {list.map(t => (
                             <div key={t.id} className="flex items-center justify-between text-sm">
-                              <div className="truncate">{t.title}</div>
+                              <div className="truncate">{t.title}{t.backfilledAt && <span className="ml-1 text-[11px] text-amber-600">backfilled</span>}</div>
                               <div className="text-xs text-muted-foreground">{t.percent}%</div>
                             </div>
                           ))}
@@ -1406,27 +2865,68 @@ export default function GoalsApp() {
       </Dialog>
 
       {/* dialogs */}
-      <GoalModal open={goalOpen} onOpenChange={setGoalOpen} onSave={addGoal}/>
+      <GoalModal
+        open={goalOpen}
+        onOpenChange={setGoalOpen}
+        goal={editingGoal}
+        areas={areas}
+        goals={goals}
+        onSave={(g, progressNote) => { if (editingGoal) updateGoal(g, progressNote); else addGoal(g); syncAreaColor(g); }}
+      />
+      <TrashDialog
+        open={trashOpen}
+        onOpenChange={setTrashOpen}
+        goals={trashedGoals}
+        plans={plans}
+        onRestoreGoal={restoreGoalDoc}
+        onPurgeGoal={purgeGoalDoc}
+        onRestoreTask={(date, id) => updatePlanOn(date, cur => restoreTask(cur, id))}
+        onPurgeTask={(date, id) => updatePlanOn(date, cur => purgeTask(cur, id))}
+      />
+      <UndoToast undo={undo} onDone={clearUndo} />
+      <AdjustProgressDialog
+        goal={adjustingGoal}
+        onOpenChange={(v) => { if (!v) setAdjustingGoal(null); }}
+        onAdjust={(delta, note, milestoneId) => {
+          if (adjustingGoal) updateGoalWith(adjustingGoal.id, (x) => applyAutoStatus(adjustProgress(x, delta, note, today, milestoneId), today));
+        }}
+      />
+      <DropGoalDialog
+        goal={droppingGoal}
+        onOpenChange={(v) => { if (!v) setDroppingGoal(null); }}
+        onDrop={(reason) => { if (droppingGoal) updateGoalWith(droppingGoal.id, (x) => dropGoal(x, reason, today)); }}
+      />
+      <ImportLocalDialog diff={importDiff} onResolve={resolveImport} onLater={() => setImportDiff(null)} />
+      <BackupDialog open={backupOpen} onOpenChange={setBackupOpen} />
+      <SettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} settings={prefs} onChange={updateSettings} />
+      <ExportDialog open={exportOpen} onOpenChange={setExportOpen} goals={allGoals} loadPlans={repo.listPlans} feed={feedControls} />
     </div>
   );
 }
 
 /* ========= Subcomponents ========= */
 function GoalTasksEditor({
-  goal, tasks, onAdd, onRemove,
+  goal, tasks, milestoneId, onAdd, onRemove, onReorder, onEstimate, onSelectMilestone,
 }: {
   goal: Goal;
   tasks: Task[];
-  onAdd: (goalId: string, title: string, how?: string) => void;
+  milestoneId?: string;
+  onAdd: (goalId: string, title: string, how?: string, estimateMin?: number) => void;
   onRemove: (taskId: string) => void;
+  onReorder?: (ids: string[]) => void;
+  onEstimate?: (taskId: string, estimateMin?: number) => void;
+  onSelectMilestone: (goalId: string, milestoneId: string) => void;
 }) {
   const [title, setTitle] = useState('');
   const [how, setHow] = useState('');
+  const [estimate, setEstimate] = useState('');
+  const presets = `estimate-presets-${goal.id}`;
+  const minutes = (v: string) => (Number(v) > 0 ? Math.round(Number(v)) : undefined);
 
   const add = () => {
     if (!title.trim()) return;
-    onAdd(goal.id, title.trim(), how.trim() || undefined);
-    setTitle(''); setHow('');
+    onAdd(goal.id, title.trim(), how.trim() || undefined, minutes(estimate));
+    setTitle(''); setHow(''); setEstimate('');
   };
 
   return (
@@ -1435,26 +2935,142 @@ function GoalTasksEditor({
         <div className="font-medium">{goal.title}</div>
         <div className="text-xs text-muted-foreground">Daily weight: {goal.dailyWeight ?? 5}%</div>
       </div>
+      {hasMilestones(goal) && (
+        <div className="flex flex-wrap items-center gap-1 mb-2">
+          <span className="text-xs text-muted-foreground mr-1">Credit today to:</span>
+          {goal.milestones!.map((m) => (
+            <Button
+              key={m.id}
+              variant={m.id === milestoneId ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onSelectMilestone(goal.id, m.id)}
+            >
+              {m.title} <span className="ml-1 text-xs opacity-70">{m.progress}%</span>
+            </Button>
+          ))}
+        </div>
+      )}
       <div className="flex items-center gap-2">
         <Input placeholder="Task (tiny and specific)" value={title} onChange={(e) => setTitle(e.target.value)} />
         <Input placeholder="How? (optional)" value={how} onChange={(e) => setHow(e.target.value)} />
+        <Input
+          type="number" min={1} list={presets} className="w-24" placeholder="min"
+          title="Estimate in minutes (optional) — weights the task in averages"
+          value={estimate} onChange={(e) => setEstimate(e.target.value)}
+        />
+        <datalist id={presets}>{ESTIMATE_PRESETS.map((m) => <option key={m} value={m}>{formatEstimate(m)}</option>)}</datalist>
         <Button onClick={add}><Plus className="h-4 w-4 mr-1" />Add</Button>
       </div>
       {tasks.length > 0 && (
-        <div className="mt-3 space-y-2">
-          {tasks.map((t) => (
-            <div key={t.id} className="flex items-center justify-between p-2 rounded-md border">
-              <div className="min-w-0">
-                <div className="font-medium truncate">{t.title}</div>
-                {t.how ? <div className="text-xs text-muted-foreground truncate">How: {t.how}</div> : null}
+        <SortableList ids={tasks.map((t) => t.id)} onReorder={(ids) => onReorder?.(ids)} className="mt-3 space-y-2">
+          {(taskId, grip) => {
+            const t = tasks.find((x) => x.id === taskId)!;
+            return (
+              <div className="flex items-center justify-between p-2 rounded-md border">
+                <div className="flex items-center gap-2 min-w-0">
+                  {onReorder && grip}
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{t.title}</div>
+                    {t.how ? <div className="text-xs text-muted-foreground truncate">How: {t.how}</div> : null}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {onEstimate && (
+                    <Input
+                      type="number" min={1} list={presets} className="h-8 w-20" placeholder="min" aria-label="Estimate in minutes"
+                      value={t.estimateMin ?? ''} onChange={(e) => onEstimate(t.id, minutes(e.target.value))}
+                    />
+                  )}
+                  <Button variant="destructive" size="icon" onClick={() => onRemove(t.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
               </div>
-              <Button variant="destructive" size="icon" onClick={() => onRemove(t.id)}>
-                <Trash2 className="h-4 w-4" />
-              </Button>
-            </div>
-          ))}
+            );
+          }}
+        </SortableList>
+      )}
+    </div>
+  );
+}
+
+/* ========= Backfill: edit a past day from History ========= */
+function BackfillDay({
+  plan, meta, goals, onChange, onRemoveTask, onSelectMilestone, onMeta,
+}: {
+  plan: DayPlan;
+  meta: DayMeta;
+  goals: Goal[]; // goals that can be logged for the day
+  onChange: (producer: (cur: DayPlan) => DayPlan) => void;
+  onRemoveTask: (taskId: string) => void;
+  onSelectMilestone: (goalId: string, milestoneId: string) => void;
+  onMeta: <K extends keyof DayMeta>(key: K, value: DayMeta[K]) => void;
+}) {
+  const setPercent = (taskId: string, v: number) =>
+    onChange(cur => ({ ...cur, tasks: cur.tasks.map(t => (t.id === taskId ? { ...t, percent: clamp(v, 0, 100) } : t)) }));
+  const addTask = (goalId: string, title: string, how?: string, estimateMin?: number) =>
+    onChange(cur => ({
+      ...cur,
+      priorities: cur.priorities.includes(goalId) ? cur.priorities : [...cur.priorities, goalId],
+      tasks: [{ id: uid(), goalId, title, how, percent: 0, ...(estimateMin ? { estimateMin } : {}) }, ...cur.tasks],
+    }));
+  const addGoal = (goalId: string) =>
+    onChange(cur => (cur.priorities.includes(goalId) ? cur : { ...cur, priorities: [...cur.priorities, goalId] }));
+
+  const dayGoals = plan.priorities.map(id => goals.find(g => g.id === id)).filter(Boolean) as Goal[];
+  const others = goals.filter(g => !plan.priorities.includes(g.id) && g.status === 'Active');
+
+  return (
+    <div className="space-y-4">
+      <div className="text-xs text-amber-600">Editing a past day — changes are marked as backfilled and credited to {plan.date}.</div>
+
+      {dayGoals.map(g => {
+        const list = plan.tasks.filter(t => t.goalId === g.id);
+        return (
+          <div key={g.id} className="space-y-2">
+            <GoalTasksEditor
+              goal={g}
+              tasks={[]}
+              milestoneId={plan.milestoneTargets?.[g.id] ?? nextMilestone(g)?.id}
+              onAdd={addTask}
+              onRemove={onRemoveTask}
+              onSelectMilestone={onSelectMilestone}
+            />
+            {list.map(t => (
+              <div key={t.id} className="flex items-center justify-between p-2 rounded-md border">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{t.title}</div>
+                  {t.backfilledAt ? <div className="text-[11px] text-amber-600">backfilled</div> : null}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="icon" onClick={() => setPercent(t.id, t.percent - 5)} aria-label="decrease"><Minus className="h-4 w-4" /></Button>
+                  <div className="w-14 text-center text-sm font-medium">{t.percent}%</div>
+                  <Button variant="outline" size="icon" onClick={() => setPercent(t.id, t.percent + 5)} aria-label="increase"><Plus className="h-4 w-4" /></Button>
+                  {[0, 50, 100].map(v => (
+                    <Button key={v} variant={t.percent === v ? 'default' : 'outline'} size="sm" onClick={() => setPercent(t.id, v)}>{v}%</Button>
+                  ))}
+                  <Button variant="destructive" size="icon" onClick={() => onRemoveTask(t.id)}><Trash2 className="h-4 w-4" /></Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+
+      {others.length > 0 && (
+        <div className="space-y-1">
+          <Label className="text-sm">Add a goal to this day</Label>
+          <div className="flex flex-wrap gap-2">
+            {others.map(g => <Button key={g.id} variant="outline" size="sm" onClick={() => addGoal(g.id)}>{g.title}</Button>)}
+          </div>
         </div>
       )}
+
+      <div className="space-y-2">
+        <Label>What did you learn that day?</Label>
+        <Textarea rows={2} value={meta.learned || ''} onChange={(e) => onMeta('learned', e.target.value)} />
+        {meta.backfilledAt && <div className="text-[11px] text-amber-600">Reflection backfilled {new Date(meta.backfilledAt).toLocaleDateString()}</div>}
+      </div>
     </div>
   );
 }
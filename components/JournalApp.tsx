@@ -6,6 +6,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
 import { requireAuth, requireDb } from "@/lib/firebase";
 import {
   collection,
@@ -17,39 +18,19 @@ import {
   query,
   setDoc,
 } from "firebase/firestore";
+import type { Goal, Habit, JournalEntry } from "@/lib/types";
+import { createFirestoreRepository } from "@/lib/storage";
+import { dailyMarkdownFiles, loadJournalExport, monthMarkdown } from "@/lib/export/markdown";
+import { zipFiles } from "@/lib/export/zip";
+import { downloadFile } from "@/lib/download";
 
 // Minimal daily journaling app, now with:
-// - Long-term goals (3/6 months)
+// - Long-term goals (the planner's goals, users/{uid}/goals)
 // - Link today’s entry to goals
 // - Simple habit tracker + streaks
 // - Weekly/Monthly reflections
 // - Basic analytics calendar
 
-type JournalEntry = {
-  date: string; // YYYY-MM-DD
-  lack?: string;
-  improve?: string;
-  linkedGoals?: string[];
-  completedHabits?: Record<string, boolean>;
-  updatedAt?: string;
-};
-
-type LTGoal = {
-  id: string;
-  title: string;
-  description?: string;
-  dueDate?: string; // YYYY-MM-DD
-  progress?: number; // 0..100
-  createdAt?: string;
-  updatedAt?: string;
-};
-
-type Habit = {
-  id: string;
-  name: string;
-  createdAt?: string;
-};
-
 const todayStr = () => new Date().toISOString().slice(0, 10);
 const pad2 = (n: number) => String(n).padStart(2, "0");
 const monthKey = (iso: string) => {
@@ -78,7 +59,7 @@ export default function JournalApp() {
   const [saving, setSaving] = useState<"idle" | "saving" | "saved">("idle");
 
   // Long-term goals & habits
-  const [goals, setGoals] = useState<LTGoal[]>([]);
+  const [goals, setGoals] = useState<Goal[]>([]);
   const [habits, setHabits] = useState<Habit[]>([]);
 
   // New goal / habit inputs
@@ -105,6 +86,10 @@ export default function JournalApp() {
   const [journalStreak, setJournalStreak] = useState(0);
   const [habitStreaks, setHabitStreaks] = useState<Record<string, number>>({});
 
+  // Markdown export
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState("");
+
   // Load entry for selected date
   useEffect(() => {
     if (!user) return;
@@ -148,18 +133,16 @@ export default function JournalApp() {
     return () => clearTimeout(t);
   }, [lack, improve, linkedGoals, completedHabits, dateKey, loadedKey, user, db]);
 
+  // Goals are shared with the planner, so go through the same repository (and its migrations).
+  const repo = useMemo(() => (user ? createFirestoreRepository(db, user.uid) : null), [db, user]);
+  useEffect(() => () => repo?.close(), [repo]);
+
   // Load goals & habits (live)
   useEffect(() => {
-    if (!user) return;
-    const goalsRef = collection(db, "users", user.uid, "ltgoals");
+    if (!user || !repo) return;
     const habitsRef = collection(db, "users", user.uid, "habits");
-    const unsubGoals = onSnapshot(query(goalsRef, orderBy("createdAt", "desc")), (snap) => {
-      const arr: LTGoal[] = snap.docs.map((d) => {
-        const { id: _ignored, ...rest } = (d.data() as LTGoal) || {};
-        return { id: d.id, ...rest } as LTGoal;
-      });
-      setGoals(arr);
-    });
+    repo.migrate().catch(() => 0);
+    const unsubGoals = repo.watchGoals((list) => setGoals(list.filter((g) => !g.deletedAt)));
     const unsubHabits = onSnapshot(query(habitsRef, orderBy("createdAt", "asc")), (snap) => {
       const arr: Habit[] = snap.docs.map((d) => {
         const { id: _ignored, ...rest } = (d.data() as Habit) || {};
@@ -168,7 +151,10 @@ export default function JournalApp() {
       setHabits(arr.slice(0, 3)); // keep UI simple: up to 3
     });
     return () => { unsubGoals(); unsubHabits(); };
-  }, [user, db]);
+  }, [user, db, repo]);
+
+  // Link to goals being worked on, plus anything this day already links to.
+  const linkable = goals.filter((g) => g.status === "Active" || linkedGoals.includes(g.id));
 
   // Weekly / Monthly reflections load & save
   useEffect(() => {
@@ -261,6 +247,23 @@ export default function JournalApp() {
 
   if (!user) return null;
 
+  const exportMarkdown = async (kind: "month" | "days") => {
+    setExporting(true); setExportError("");
+    try {
+      const data = await loadJournalExport(db, user.uid);
+      if (kind === "month") {
+        const mk = `${calYear}-${pad2(calMonth + 1)}`;
+        downloadFile(`journal-${mk}.md`, monthMarkdown(data, mk), "text/markdown");
+      } else {
+        downloadFile(`journal-${todayStr()}.zip`, zipFiles(dailyMarkdownFiles(data)));
+      }
+    } catch {
+      setExportError("Export failed. Check your connection and try again.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
   // Calendar grid for analytics
   const first = new Date(firstOfMonth);
   const weekday = (first.getDay() + 6) % 7; // Mon=0
@@ -313,9 +316,9 @@ export default function JournalApp() {
           <CardTitle>Link today to goals</CardTitle>
         </CardHeader>
         <CardContent className="space-y-2">
-          {goals.length === 0 && <div className="text-xs text-muted-foreground">No long-term goals yet.</div>}
+          {linkable.length === 0 && <div className="text-xs text-muted-foreground">No active long-term goals yet.</div>}
           <div className="flex flex-wrap gap-2">
-            {goals.map((g) => {
+            {linkable.map((g) => {
               const checked = linkedGoals.includes(g.id);
               return (
                 <label key={g.id} className={`px-3 py-1 rounded border cursor-pointer text-sm ${checked ? 'bg-primary text-primary-foreground' : 'bg-background'}`}>
@@ -382,6 +385,7 @@ export default function JournalApp() {
       <Card>
         <CardHeader>
           <CardTitle>Long-term goals (3–6 months)</CardTitle>
+          <div className="text-xs text-muted-foreground">Shared with the planner; progress comes from your daily tasks there.</div>
         </CardHeader>
         <CardContent className="space-y-3">
           <div className="grid gap-2 md:grid-cols-3">
@@ -392,12 +396,18 @@ export default function JournalApp() {
           <div className="flex justify-end">
             <Button
               onClick={async () => {
-                if (!user) return;
+                if (!repo) return;
                 if (!newGoalTitle.trim()) return;
                 const id = Math.random().toString(36).slice(2,10);
                 const now = new Date().toISOString();
-                const g: LTGoal = { id, title: newGoalTitle.trim(), description: newGoalDesc.trim() || undefined, dueDate: newGoalDue || undefined, progress: 0, createdAt: now, updatedAt: now };
-                await setDoc(doc(db, 'users', user.uid, 'ltgoals', id), g, { merge: true });
+                const start = todayStr();
+                const due = new Date(start + "T00:00:00"); due.setMonth(due.getMonth() + 3);
+                const g: Goal = {
+                  id, title: newGoalTitle.trim(), note: newGoalDesc.trim(),
+                  startDate: start, targetDate: newGoalDue && newGoalDue >= start ? newGoalDue : due.toISOString().slice(0, 10),
+                  priority: 'Medium', status: 'Active', progress: 0, dailyWeight: 5, createdAt: now, updatedAt: now,
+                };
+                await repo.saveGoal(g);
                 setNewGoalTitle(''); setNewGoalDue(''); setNewGoalDesc('');
               }}
               disabled={!newGoalTitle.trim()}
@@ -409,15 +419,12 @@ export default function JournalApp() {
               <div key={g.id} className="p-3 rounded border space-y-2">
                 <div className="flex items-center justify-between gap-2">
                   <div className="font-medium truncate">{g.title}</div>
-                  <div className="text-xs text-muted-foreground">Due: {g.dueDate || '—'}</div>
+                  <div className="text-xs text-muted-foreground">{g.status !== 'Active' ? `${g.status} • ` : ''}Due: {g.targetDate || '—'}</div>
                 </div>
-                {g.description && <div className="text-xs text-muted-foreground">{g.description}</div>}
+                {g.note && <div className="text-xs text-muted-foreground">{g.note}</div>}
                 <div className="flex items-center gap-2">
-                  <Input type="range" min={0} max={100} value={g.progress ?? 0} onChange={async (e)=>{
-                    const p = Number(e.target.value);
-                    await setDoc(doc(db, 'users', user.uid!, 'ltgoals', g.id), { progress: p, updatedAt: new Date().toISOString() }, { merge: true });
-                  }} />
-                  <div className="w-12 text-right text-sm">{g.progress ?? 0}%</div>
+                  <Progress value={g.progress} className="flex-1" />
+                  <div className="w-12 text-right text-sm">{g.progress}%</div>
                 </div>
               </div>
             ))}
@@ -491,6 +498,27 @@ export default function JournalApp() {
         </CardContent>
       </Card>
 
+      {/* Export */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Export to Markdown</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="text-xs text-muted-foreground">
+            Front-matter lists the date, linked goals and completed habits, ready for a notes vault.
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" disabled={exporting} onClick={() => exportMarkdown("month")}>
+              {firstOfMonth.toLocaleString(undefined, { month: "long", year: "numeric" })} (.md)
+            </Button>
+            <Button variant="outline" size="sm" disabled={exporting} onClick={() => exportMarkdown("days")}>
+              One file per day (.zip)
+            </Button>
+          </div>
+          {exportError && <div className="text-sm text-red-600">{exportError}</div>}
+        </CardContent>
+      </Card>
+
       <Separator />
 
       <div className="text-xs text-muted-foreground">
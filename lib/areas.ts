@@ -0,0 +1,38 @@
+// Life areas (Research, Health, Career…) for grouping goals. An area is just a
+// name and a color carried on each goal; the list of areas is whatever the
+// goals use, and recoloring an area recolors every goal in it.
+
+import type { Goal, LifeArea } from '@/lib/types';
+
+export const AREA_PALETTE = ['#2563eb', '#16a34a', '#dc2626', '#9333ea', '#ea580c', '#0891b2', '#ca8a04', '#db2777'];
+
+/** `null` shows everything; '' selects goals without an area. */
+export type AreaFilter = string | null;
+
+const key = (name: string) => name.trim().toLowerCase();
+
+export const defaultAreaColor = (name: string) => {
+  let h = 0;
+  for (const c of key(name)) h = (h * 31 + c.charCodeAt(0)) >>> 0;
+  return AREA_PALETTE[h % AREA_PALETTE.length];
+};
+
+export const areaName = (g?: Goal) => g?.area?.name ?? '';
+
+/** Areas in use, one per name (first goal's color wins), sorted by name. */
+export function listAreas(goals: Goal[]): LifeArea[] {
+  const seen = new Map<string, LifeArea>();
+  for (const g of goals) if (g.area?.name && !seen.has(key(g.area.name))) seen.set(key(g.area.name), g.area);
+  return [...seen.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export const matchesArea = (g: Goal | undefined, filter: AreaFilter) =>
+  filter === null || key(areaName(g)) === key(filter);
+
+/** Goals (other than `g`) in the same area whose color no longer matches it, recolored. */
+export const recolorArea = (goals: Goal[], g: Goal): Goal[] =>
+  g.area
+    ? goals
+        .filter((x) => x.id !== g.id && x.area && key(x.area.name) === key(g.area!.name) && x.area.color !== g.area!.color)
+        .map((x) => ({ ...x, area: { ...x.area!, color: g.area!.color }, updatedAt: new Date().toISOString() }))
+    : [];
@@ -0,0 +1,27 @@
+// Backfilling: editing a day after it's over (a forgotten log, a late
+// reflection). Edits are allowed but marked, so history stays honest about
+// what was recorded on the day and what was filled in later.
+
+import type { DayPlan, Task } from '@/lib/types';
+
+const withoutMark = (t: Task): Task => ({ ...t, backfilledAt: undefined });
+const same = (a: Task, b: Task) => JSON.stringify(withoutMark(a)) === JSON.stringify(withoutMark(b));
+
+/** A day is in the past (and so editing it is a backfill). */
+export const isPastDay = (date: string, today: string) => date < today;
+
+/** `next` with every task added or changed since `prev` stamped as backfilled at `at`. */
+export function markBackfilled(prev: DayPlan, next: DayPlan, at: string = new Date().toISOString()): DayPlan {
+  if (prev === next) return next;
+  const before = new Map(prev.tasks.map((t) => [t.id, t]));
+  return {
+    ...next,
+    tasks: next.tasks.map((t) => {
+      const old = before.get(t.id);
+      return old && same(old, t) ? t : { ...t, backfilledAt: at };
+    }),
+  };
+}
+
+/** Tasks on the day that were filled in after the fact. */
+export const backfilledTasks = (plan: DayPlan) => plan.tasks.filter((t) => t.backfilledAt);
@@ -0,0 +1,128 @@
+// Full account backup: every collection under users/{uid} as one versioned JSON file.
+
+import {
+  collection, doc, getDocs, setDoc, writeBatch, type Firestore, type WriteBatch,
+} from 'firebase/firestore';
+import { SCHEMA_VERSION } from '@/lib/storage/migrations';
+
+export const BACKUP_FORMAT = 'goals-app-backup';
+export const BACKUP_VERSION = 1;
+
+// 'ltgoals' is only in backups made before journal goals moved into 'goals';
+// restoring one re-runs the migration, which folds them in.
+export const BACKUP_COLLECTIONS = [
+  'goals', 'plans', 'meta', 'journal', 'ltgoals', 'habits', 'weekReflections', 'monthReflections', 'settings',
+] as const;
+export type BackupCollection = (typeof BACKUP_COLLECTIONS)[number];
+
+type DocData = Record<string, unknown>;
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  collections: Record<BackupCollection, Record<string, DocData>>; // doc id -> data
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+// Firestore allows 500 writes per batch; stay well below.
+const BATCH_LIMIT = 400;
+
+export async function exportBackup(db: Firestore, userId: string): Promise<Backup> {
+  const entries = await Promise.all(BACKUP_COLLECTIONS.map(async (name) => {
+    const snap = await getDocs(collection(db, 'users', userId, name));
+    const docs: Record<string, DocData> = {};
+    snap.forEach((d) => { docs[d.id] = d.data(); });
+    return [name, docs] as const;
+  }));
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    collections: Object.fromEntries(entries) as Backup['collections'],
+  };
+}
+
+export const backupFilename = (b: Backup) => `goals-backup-${b.exportedAt.slice(0, 10)}.json`;
+
+const isObject = (v: unknown): v is DocData => !!v && typeof v === 'object' && !Array.isArray(v);
+
+// Collections keyed by date must have a matching `date` field (the app queries on it).
+const DATED: BackupCollection[] = ['plans', 'meta', 'journal'];
+
+/** Parse and validate a backup file. Throws with a readable message on anything unexpected. */
+export function parseBackup(text: string): Backup {
+  let raw: unknown;
+  try { raw = JSON.parse(text); } catch { throw new Error('[Backup] File is not valid JSON.'); }
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT) throw new Error('[Backup] Not a Goals app backup file.');
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    throw new Error(`[Backup] Unsupported backup version ${String(raw.version)}.`);
+  }
+  if (!isObject(raw.collections)) throw new Error('[Backup] Missing collections.');
+
+  const collections = {} as Backup['collections'];
+  for (const name of BACKUP_COLLECTIONS) {
+    const docs = raw.collections[name] ?? {};
+    if (!isObject(docs)) throw new Error(`[Backup] "${name}" must be an object of documents.`);
+    for (const [id, data] of Object.entries(docs)) {
+      if (!id || id.includes('/')) throw new Error(`[Backup] Invalid document id "${id}" in ${name}.`);
+      if (!isObject(data)) throw new Error(`[Backup] ${name}/${id} is not an object.`);
+      if (DATED.includes(name) && data.date !== id) throw new Error(`[Backup] ${name}/${id} has a mismatched date.`);
+    }
+    collections[name] = docs as Record<string, DocData>;
+  }
+  const unknown = Object.keys(raw.collections).filter((k) => !(BACKUP_COLLECTIONS as readonly string[]).includes(k));
+  if (unknown.length) throw new Error(`[Backup] Unknown collections: ${unknown.join(', ')}.`);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: raw.version,
+    schemaVersion: typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    collections,
+  };
+}
+
+export const backupCounts = (b: Backup): Record<BackupCollection, number> =>
+  Object.fromEntries(BACKUP_COLLECTIONS.map((n) => [n, Object.keys(b.collections[n]).length])) as Record<BackupCollection, number>;
+
+/**
+ * Write a backup into users/{uid} in batches.
+ * replace: documents not in the backup are deleted and backed-up ones overwritten.
+ * merge:   existing documents are kept; backed-up fields are merged on top.
+ */
+export async function restoreBackup(
+  db: Firestore,
+  userId: string,
+  backup: Backup,
+  mode: RestoreMode,
+  onProgress?: (done: number, total: number) => void,
+): Promise<void> {
+  const ops: ((batch: WriteBatch) => void)[] = [];
+  for (const name of BACKUP_COLLECTIONS) {
+    const docs = backup.collections[name];
+    if (mode === 'replace') {
+      const existing = await getDocs(collection(db, 'users', userId, name));
+      existing.forEach((d) => { if (!(d.id in docs)) ops.push((b) => b.delete(d.ref)); });
+    }
+    for (const [id, data] of Object.entries(docs)) {
+      const ref = doc(db, 'users', userId, name, id);
+      ops.push((b) => b.set(ref, data, { merge: mode === 'merge' }));
+    }
+  }
+
+  for (let i = 0; i < ops.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    ops.slice(i, i + BATCH_LIMIT).forEach((op) => op(batch));
+    await batch.commit();
+    onProgress?.(Math.min(i + BATCH_LIMIT, ops.length), ops.length);
+  }
+
+  // Older backups hold older document shapes: let the migration runner pass over them again.
+  if (backup.schemaVersion < SCHEMA_VERSION) {
+    await setDoc(doc(db, 'users', userId), { schemaVersion: backup.schemaVersion }, { merge: true });
+  }
+}
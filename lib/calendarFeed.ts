@@ -0,0 +1,48 @@
+// Subscribable calendar feed.
+//
+// The client renders the ICS and publishes it to calendarFeeds/{token}; the
+// route handler at /api/calendar/{token} serves it to calendar apps, which
+// can't sign in. The token is random and only stored on users/{uid}, so the
+// feed doc is readable by id but not listable, and only its owner may write or
+// delete it (see firestore.rules).
+
+import { deleteDoc, deleteField, doc, getDoc, setDoc, type Firestore } from 'firebase/firestore';
+
+export const FEED_COLLECTION = 'calendarFeeds';
+
+export interface CalendarFeedDoc {
+  uid: string;
+  ics: string;
+  updatedAt: string;
+}
+
+const randomToken = () => {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const feedPath = (token: string) => `/api/calendar/${token}`;
+
+export async function getCalendarFeedToken(db: Firestore, userId: string): Promise<string | null> {
+  const snap = await getDoc(doc(db, 'users', userId));
+  const token = snap.data()?.calendarFeedToken;
+  return typeof token === 'string' && token ? token : null;
+}
+
+export async function enableCalendarFeed(db: Firestore, userId: string, ics: string): Promise<string> {
+  const token = randomToken();
+  await publishCalendarFeed(db, userId, token, ics);
+  await setDoc(doc(db, 'users', userId), { calendarFeedToken: token }, { merge: true });
+  return token;
+}
+
+export async function publishCalendarFeed(db: Firestore, userId: string, token: string, ics: string): Promise<void> {
+  const data: CalendarFeedDoc = { uid: userId, ics, updatedAt: new Date().toISOString() };
+  await setDoc(doc(db, FEED_COLLECTION, token), data);
+}
+
+export async function disableCalendarFeed(db: Firestore, userId: string, token: string): Promise<void> {
+  await deleteDoc(doc(db, FEED_COLLECTION, token));
+  await setDoc(doc(db, 'users', userId), { calendarFeedToken: deleteField() }, { merge: true });
+}
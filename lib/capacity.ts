@@ -0,0 +1,45 @@
+// Daily capacity: how much a day can hold, in hours (summed task estimates)
+// or points (summed daily weights of its priorities), and which priorities to
+// defer when a plan holds more than that.
+
+import type { DayPlan, Goal, PlannerSettings } from '@/lib/types';
+import { estimatedMinutes } from '@/lib/effort';
+
+export type CapacityUnit = NonNullable<PlannerSettings['capacityUnit']>;
+
+/** What one priority puts on the day: minutes of estimates, or its daily weight. */
+export const goalLoad = (plan: DayPlan, g: Goal, unit: CapacityUnit) =>
+  unit === 'hours'
+    ? estimatedMinutes(plan.tasks.filter((t) => t.goalId === g.id))
+    : g.dailyWeight ?? 5;
+
+/** Capacity in the unit goalLoad measures (minutes for hours). */
+export const capacityLoad = (capacity: number, unit: CapacityUnit) => (unit === 'hours' ? capacity * 60 : capacity);
+
+export interface DeferCandidate {
+  goal: Goal;
+  load: number;
+  urgency: number;    // average completion needed from now on to hit the deadline, 0..100
+  started: boolean;   // progress already logged on the day; never suggested
+}
+
+/**
+ * Least urgent priorities to take off the day until what's left fits, in the
+ * order to defer them. `candidates` are in priority order; ties on urgency
+ * defer the lower priority first.
+ */
+export function suggestDeferrals(candidates: DeferCandidate[], capacity: number): DeferCandidate[] {
+  let total = candidates.reduce((s, c) => s + c.load, 0);
+  if (total <= capacity) return [];
+  const order = candidates
+    .map((c, rank) => ({ c, rank }))
+    .filter(({ c }) => !c.started && c.load > 0)
+    .sort((a, b) => a.c.urgency - b.c.urgency || b.rank - a.rank);
+  const out: DeferCandidate[] = [];
+  for (const { c } of order) {
+    if (total <= capacity) break;
+    out.push(c);
+    total -= c.load;
+  }
+  return out;
+}
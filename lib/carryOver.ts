@@ -0,0 +1,58 @@
+// Carry-over: tasks flagged "move to tomorrow" (and left under 100%) are copied
+// into the next day that gets opened, from the last day that has a plan, so a
+// skipped weekend doesn't lose Friday's postponed work. It merges with whatever
+// is already planned for that day, since the day may have been planned the
+// night before.
+
+import type { DayPlan, Task } from '@/lib/types';
+
+/** How far back to look for the last planned day. */
+export const CARRY_LOOKBACK_DAYS = 14;
+
+export interface CarryOptions {
+  keepPartial?: boolean;  // copies keep their percent instead of starting at 0
+  autoPostpone?: boolean; // unfinished tasks carry unless explicitly unticked
+}
+
+const sameTask = (a: Task, b: Task) =>
+  a.goalId === b.goalId && a.title.trim().toLowerCase() === b.title.trim().toLowerCase();
+
+/** Copies keep a stable id per source task and day, so two devices carrying the same day agree. */
+export const carriedTaskId = (sourceId: string, date: string) => `${sourceId}>${date}`;
+
+/** The last opened day before `date` (every opened day gets a plan), if one is loaded. */
+export const lastPlanBefore = (plans: Record<string, DayPlan>, date: string): DayPlan | undefined =>
+  Object.values(plans)
+    .filter((p) => p.date < date)
+    .sort((a, b) => (a.date < b.date ? 1 : -1))[0];
+
+/** Whether `t` moves on at the end of `plan`'s day. */
+export const isPostponed = (plan: DayPlan, t: Task, autoPostpone = false) =>
+  t.percent < 100 && (plan.postponeFlags?.[t.id] ?? autoPostpone);
+
+/**
+ * `into` with `from`'s postponed tasks added on top (skipping ones already
+ * planned there, or deleted from it) and their goals appended to priorities.
+ * Each copy counts one more postponement. With `keepPartial` it also keeps
+ * its percent; that part was credited on the earlier day, so it's recorded
+ * as `carriedPercent` and only progress beyond it earns credit again.
+ * Marks `into.carriedFrom` so it runs once per day.
+ */
+export function carryOver(from: DayPlan, into: DayPlan, opts: CarryOptions = {}): DayPlan {
+  const marked = { ...into, carriedFrom: from.date };
+  const gone = new Set([...Object.keys(into.removedTasks ?? {}), ...Object.keys(into.trashedTasks ?? {})]);
+  const copies: Task[] = from.tasks
+    .filter((t) => isPostponed(from, t, opts.autoPostpone))
+    .map((t) => ({
+      id: carriedTaskId(t.id, into.date), goalId: t.goalId, title: t.title,
+      percent: opts.keepPartial ? t.percent : 0,
+      ...(opts.keepPartial && t.percent ? { carriedPercent: t.percent } : {}),
+      postponed: (t.postponed ?? 0) + 1,
+      ...(t.how ? { how: t.how } : {}), ...(t.estimateMin ? { estimateMin: t.estimateMin } : {}),
+    }))
+    .filter((c) => !gone.has(c.id) && !into.tasks.some((t) => t.id === c.id || sameTask(t, c)));
+
+  const priorities = [...into.priorities];
+  for (const c of copies) if (!priorities.includes(c.goalId)) priorities.push(c.goalId);
+  return { ...marked, priorities, tasks: [...copies, ...into.tasks] };
+}
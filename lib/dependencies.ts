@@ -0,0 +1,48 @@
+// Blocked-by relationships between goals. Blocked is derived, never stored:
+// a goal is blocked while any prerequisite it lists isn't Completed, so it
+// unblocks by itself the moment the last prerequisite completes. Prerequisites
+// that were deleted no longer block.
+
+import type { Goal } from '@/lib/types';
+
+const live = (goals: Goal[]) => new Map(goals.filter((g) => !g.deletedAt).map((g) => [g.id, g]));
+
+/** Prerequisites of `g` that aren't Completed yet. */
+export function blockersOf(g: Goal, goals: Goal[]): Goal[] {
+  const byId = live(goals);
+  return (g.blockedBy ?? []).map((id) => byId.get(id)).filter((x): x is Goal => !!x && x.status !== 'Completed');
+}
+
+export const isBlocked = (g: Goal, goals: Goal[]) => blockersOf(g, goals).length > 0;
+
+/** Would making `prereqId` a prerequisite of `goalId` close a loop? */
+export function wouldCycle(goals: Goal[], goalId: string, prereqId: string): boolean {
+  const byId = new Map(goals.map((g) => [g.id, g]));
+  const stack = [prereqId];
+  const seen = new Set<string>();
+  while (stack.length) {
+    const id = stack.pop()!;
+    if (id === goalId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(byId.get(id)?.blockedBy ?? []));
+  }
+  return false;
+}
+
+/**
+ * First day work on `g` can start: the day after its latest-finishing
+ * prerequisite, using `finishOf` (e.g. a forecast, or the target date) for
+ * each. Today when nothing blocks it.
+ */
+export function availableFrom(g: Goal, goals: Goal[], today: string, finishOf: (p: Goal) => string): string {
+  let latest = '';
+  for (const p of blockersOf(g, goals)) {
+    const f = finishOf(p);
+    if (f > latest) latest = f;
+  }
+  if (!latest || latest < today) return today;
+  const d = new Date(latest + 'T00:00:00');
+  d.setDate(d.getDate() + 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
@@ -0,0 +1,12 @@
+// Browser-only helper to save generated text (JSON, CSV, ICS…) as a file.
+export function downloadFile(filename: string, content: string | Blob, mime = 'text/plain'): void {
+  const blob = typeof content === 'string' ? new Blob([content], { type: `${mime};charset=utf-8` }) : content;
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
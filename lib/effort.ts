@@ -0,0 +1,40 @@
+// Task effort: an optional time estimate per task, used to weight averages so
+// a five-minute chore doesn't count as much as a three-hour experiment.
+// Tasks without an estimate count as an average task of the same set, so a
+// day (or goal) with no estimates at all averages exactly as a plain mean.
+
+import type { Task } from '@/lib/types';
+
+/** Quick picks in the planner, in minutes. */
+export const ESTIMATE_PRESETS = [5, 15, 30, 60, 120, 180];
+
+export const hasEstimate = (t: Task) => typeof t.estimateMin === 'number' && t.estimateMin > 0;
+
+/** "15m", "2h", "1h 30m". */
+export function formatEstimate(min: number): string {
+  const h = Math.floor(min / 60);
+  const m = Math.round(min % 60);
+  if (!h) return `${m}m`;
+  return m ? `${h}h ${m}m` : `${h}h`;
+}
+
+/** Weight of each task in `tasks` (same order). */
+export function taskWeights(tasks: Task[]): number[] {
+  const known = tasks.filter(hasEstimate).map((t) => t.estimateMin!);
+  const fallback = known.length ? known.reduce((s, m) => s + m, 0) / known.length : 1;
+  return tasks.map((t) => (hasEstimate(t) ? t.estimateMin! : fallback));
+}
+
+/** Part of a task done on its own day: a carried-over task's earlier progress was credited before. */
+export const creditPercent = (t: Task) => Math.max(0, t.percent - (t.carriedPercent ?? 0));
+
+/** Effort-weighted completion of `tasks`, 0..100 (0 when empty). */
+export function weightedPercent(tasks: Task[], percentOf: (t: Task) => number = (t) => t.percent): number {
+  if (!tasks.length) return 0;
+  const w = taskWeights(tasks);
+  const total = w.reduce((s, x) => s + x, 0);
+  return Math.round(tasks.reduce((s, t, i) => s + percentOf(t) * w[i], 0) / total);
+}
+
+/** Sum of the estimates given (tasks without one add nothing). */
+export const estimatedMinutes = (tasks: Task[]) => tasks.reduce((s, t) => s + (hasEstimate(t) ? t.estimateMin! : 0), 0);
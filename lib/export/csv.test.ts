@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { toCSV } from './csv';
+
+describe('toCSV', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(toCSV(['a', 'b'], [['x, y', 'say "hi"']])).toBe('a,b\r\n"x, y","say ""hi"""\r\n');
+  });
+
+  it('neutralises text a spreadsheet would run as a formula', () => {
+    const csv = toCSV(['a', 'b', 'c', 'd'], [['=HYPERLINK("x")', '+1', '-cmd', '@SUM(A1)']]);
+    expect(csv.split('\r\n')[1]).toBe(`"'=HYPERLINK(""x"")",'+1,'-cmd,'@SUM(A1)`);
+  });
+
+  it('leaves numbers as they are', () => {
+    expect(toCSV(['n'], [[-5]])).toBe('n\r\n-5\r\n');
+  });
+});
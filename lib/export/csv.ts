@@ -0,0 +1,62 @@
+// CSV export of planner data for spreadsheets (one flat row per task / credit / focus session).
+
+import type { DayPlan, Goal } from '@/lib/types';
+
+type Cell = string | number | boolean | null | undefined;
+
+// Text starting with one of these is run as a formula by spreadsheet apps, so
+// it gets a leading ' (numbers are left alone: -5 is a real value).
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeCell = (v: Cell): string => {
+  if (v === null || v === undefined) return '';
+  const s = typeof v === 'string' && FORMULA_START.test(v) ? `'${v}` : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const toCSV = (header: string[], rows: Cell[][]): string =>
+  [header, ...rows].map((r) => r.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+
+const sortedDays = (plans: Record<string, DayPlan>) =>
+  Object.values(plans).sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+
+const titleLookup = (goals: Goal[]) => {
+  const byId = new Map(goals.map((g) => [g.id, g]));
+  return (id: string) => byId.get(id)?.title ?? 'Unknown goal';
+};
+
+/** One row per task per day. */
+export function tasksCSV(plans: Record<string, DayPlan>, goals: Goal[]): string {
+  const title = titleLookup(goals);
+  const rows: Cell[][] = [];
+  for (const p of sortedDays(plans)) {
+    for (const t of p.tasks) {
+      rows.push([p.date, t.goalId, title(t.goalId), t.id, t.title, t.how, t.percent, t.estimateMin]);
+    }
+  }
+  return toCSV(['date', 'goal_id', 'goal_title', 'task_id', 'task', 'how', 'percent', 'estimate_min'], rows);
+}
+
+/** One row per goal per day with the progress points credited that day. */
+export function creditsCSV(plans: Record<string, DayPlan>, goals: Goal[]): string {
+  const title = titleLookup(goals);
+  const rows: Cell[][] = [];
+  for (const p of sortedDays(plans)) {
+    for (const [gid, credit] of Object.entries(p.credits ?? {})) {
+      rows.push([p.date, gid, title(gid), credit]);
+    }
+  }
+  return toCSV(['date', 'goal_id', 'goal_title', 'credit'], rows);
+}
+
+/** One row per focus session. */
+export function focusCSV(plans: Record<string, DayPlan>): string {
+  const rows: Cell[][] = [];
+  for (const p of sortedDays(plans)) {
+    const sessions = [...(p.focusedSessions ?? [])].sort((a, b) => (a.startISO < b.startISO ? -1 : 1));
+    for (const s of sessions) {
+      rows.push([p.date, s.id, s.startISO, s.endISO, s.durationMin, s.acknowledgedAt.length, s.status]);
+    }
+  }
+  return toCSV(['date', 'session_id', 'start', 'end', 'duration_min', 'acknowledgements', 'status'], rows);
+}
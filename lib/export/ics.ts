@@ -0,0 +1,87 @@
+// iCalendar (RFC 5545) export: goal deadlines as all-day events and
+// completed focus sessions as timed events.
+
+import type { DayPlan, Goal } from '@/lib/types';
+
+const PRODID = '-//Daily Goals//Goals App//EN';
+const UID_DOMAIN = 'goals-app';
+
+const escapeText = (s: string) =>
+  s.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded with CRLF + space.
+const fold = (line: string) => {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let cur = '';
+  let size = 0;
+  for (const ch of line) {
+    const n = new TextEncoder().encode(ch).length;
+    if (size + n > (parts.length ? 74 : 75)) { parts.push(cur); cur = ''; size = 0; }
+    cur += ch; size += n;
+  }
+  parts.push(cur);
+  return parts.join('\r\n ');
+};
+
+const dateValue = (iso: string) => iso.slice(0, 10).replace(/-/g, '');
+const utcValue = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+const nextDay = (iso: string) => {
+  const d = new Date(iso.slice(0, 10) + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+};
+
+const goalEvent = (g: Goal, stamp: string): string[] => {
+  const remaining = Math.max(0, 100 - g.progress);
+  const desc = [
+    `Status: ${g.status}`,
+    `Progress: ${g.progress}% (${remaining}% remaining)`,
+    `Priority: ${g.priority}`,
+    g.note ? `\n${g.note}` : '',
+  ].filter(Boolean).join('\n');
+  return [
+    'BEGIN:VEVENT',
+    `UID:goal-${g.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${dateValue(g.targetDate)}`,
+    `DTEND;VALUE=DATE:${dateValue(nextDay(g.targetDate))}`,
+    `SUMMARY:${escapeText(`🎯 ${g.title} — deadline`)}`,
+    `DESCRIPTION:${escapeText(desc)}`,
+    'TRANSP:TRANSPARENT',
+    `STATUS:${g.status === 'Dropped' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+  ];
+};
+
+const focusEvents = (p: DayPlan, stamp: string): string[] =>
+  (p.focusedSessions ?? [])
+    .filter((s) => s.status === 'completed')
+    .flatMap((s) => [
+      'BEGIN:VEVENT',
+      `UID:focus-${s.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${utcValue(s.startISO)}`,
+      `DTEND:${utcValue(s.endISO)}`,
+      `SUMMARY:${escapeText(`Focused session (${s.durationMin}m)`)}`,
+      `DESCRIPTION:${escapeText(`Checkpoints acknowledged: ${s.acknowledgedAt.length}`)}`,
+      'END:VEVENT',
+    ]);
+
+/** Build a VCALENDAR with every goal's target date and the completed focus sessions in `plans`. */
+export function buildICS(goals: Goal[], plans: Record<string, DayPlan>, name = 'Daily Goals'): string {
+  const stamp = utcValue(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...goals.filter((g) => g.targetDate && !g.deletedAt).flatMap((g) => goalEvent(g, stamp)),
+    ...Object.values(plans).flatMap((p) => focusEvents(p, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
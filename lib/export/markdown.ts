@@ -0,0 +1,111 @@
+// Markdown export of the journal (daily answers, linked goals, habits) and
+// weekly / monthly reflections, with YAML front-matter for notes vaults.
+
+import { collection, getDocs, type Firestore } from 'firebase/firestore';
+import type { Goal, Habit, JournalEntry, Reflection } from '@/lib/types';
+
+export interface JournalExport {
+  entries: JournalEntry[];
+  goals: Goal[];
+  habits: Habit[];
+  weeks: Reflection[];
+  months: Reflection[];
+}
+
+export async function loadJournalExport(db: Firestore, userId: string): Promise<JournalExport> {
+  const read = async <T,>(name: string, withId = false) => {
+    const snap = await getDocs(collection(db, 'users', userId, name));
+    return snap.docs.map((d) => (withId ? { ...d.data(), id: d.id } : { key: d.id, ...d.data() }) as T);
+  };
+  const [entries, goals, habits, weeks, months] = await Promise.all([
+    read<JournalEntry>('journal'),
+    read<Goal>('goals', true),
+    read<Habit>('habits', true),
+    read<Reflection>('weekReflections'),
+    read<Reflection>('monthReflections'),
+  ]);
+  return {
+    entries: entries.filter((e) => !!e.date).sort((a, b) => (a.date < b.date ? -1 : 1)),
+    goals, habits,
+    weeks: weeks.sort((a, b) => (a.key < b.key ? -1 : 1)),
+    months: months.sort((a, b) => (a.key < b.key ? -1 : 1)),
+  };
+}
+
+// JSON strings are valid YAML double-quoted scalars.
+const yamlValue = (v: string | string[]) =>
+  Array.isArray(v) ? (v.length ? `\n${v.map((x) => `  - ${JSON.stringify(x)}`).join('\n')}` : ' []') : ` ${JSON.stringify(v)}`;
+
+const frontMatter = (fields: Record<string, string | string[]>) =>
+  ['---', ...Object.entries(fields).map(([k, v]) => `${k}:${yamlValue(v)}`), '---', ''].join('\n');
+
+const hasText = (e: JournalEntry) => !!(e.lack?.trim() || e.improve?.trim());
+
+const resolvers = (data: JournalExport) => {
+  const goalTitle = new Map(data.goals.map((g) => [g.id, g.title]));
+  const habitName = new Map(data.habits.map((h) => [h.id, h.name]));
+  return {
+    goalsOf: (e: JournalEntry) => (e.linkedGoals ?? []).map((id) => goalTitle.get(id) ?? id),
+    habitsOf: (e: JournalEntry) =>
+      Object.entries(e.completedHabits ?? {}).filter(([, done]) => done).map(([id]) => habitName.get(id) ?? id),
+  };
+};
+
+const entryBody = (e: JournalEntry, goals: string[], habits: string[], heading: string) => {
+  const out = [heading, ''];
+  out.push('### Where do I lack?', '', e.lack?.trim() || '_—_', '');
+  out.push('### What will I do to improve it?', '', e.improve?.trim() || '_—_', '');
+  if (goals.length) out.push(`**Goals:** ${goals.join(', ')}`, '');
+  if (habits.length) out.push(`**Habits:** ${habits.join(', ')}`, '');
+  return out.join('\n');
+};
+
+const reflectionSection = (title: string, r: Reflection) => [`## ${title}`, '', r.note.trim(), ''].join('\n');
+
+const uniq = (xs: string[]) => [...new Set(xs)];
+
+/** One Markdown document for a month (YYYY-MM): every journaled day plus that month's reflections. */
+export function monthMarkdown(data: JournalExport, month: string): string {
+  const { goalsOf, habitsOf } = resolvers(data);
+  const days = data.entries.filter((e) => e.date.startsWith(month) && (hasText(e) || e.linkedGoals?.length));
+  const weeks = data.weeks.filter((w) => w.key.startsWith(month) && w.note?.trim());
+  const monthNote = data.months.find((m) => m.key === month && m.note?.trim());
+
+  const parts = [
+    frontMatter({
+      month,
+      dates: days.map((e) => e.date),
+      goals: uniq(days.flatMap(goalsOf)),
+      habits: uniq(days.flatMap(habitsOf)),
+    }),
+    `# Journal — ${month}`,
+    '',
+  ];
+  if (monthNote) parts.push(reflectionSection('Monthly reflection', monthNote));
+  for (const w of weeks) parts.push(reflectionSection(`Week of ${w.key}`, w));
+  for (const e of days) parts.push(entryBody(e, goalsOf(e), habitsOf(e), `## ${e.date}`));
+  if (!days.length && !weeks.length && !monthNote) parts.push('_No entries this month._', '');
+  return parts.join('\n');
+}
+
+/** Files for a zip: one per journaled day, plus reflections/week-*.md and reflections/month-*.md. */
+export function dailyMarkdownFiles(data: JournalExport): Record<string, string> {
+  const { goalsOf, habitsOf } = resolvers(data);
+  const files: Record<string, string> = {};
+  for (const e of data.entries) {
+    if (!hasText(e) && !e.linkedGoals?.length) continue;
+    const goals = goalsOf(e);
+    const habits = habitsOf(e);
+    files[`journal/${e.date.slice(0, 4)}/${e.date}.md`] =
+      frontMatter({ date: e.date, goals, habits }) + entryBody(e, goals, habits, `# ${e.date}`);
+  }
+  for (const w of data.weeks) {
+    if (!w.note?.trim()) continue;
+    files[`reflections/week-${w.key}.md`] = frontMatter({ week: w.key }) + reflectionSection(`Week of ${w.key}`, w);
+  }
+  for (const m of data.months) {
+    if (!m.note?.trim()) continue;
+    files[`reflections/month-${m.key}.md`] = frontMatter({ month: m.key }) + reflectionSection(`Month ${m.key}`, m);
+  }
+  return files;
+}
@@ -16,10 +16,8 @@ let app: FirebaseApp | undefined;
 let auth: Auth | undefined;
 let db: Firestore | undefined;
 
-export function initFirebase(): void {
-  if (!isClient || app) return;
-
-  const config = {
+function firebaseConfig() {
+  return {
     apiKey: required('NEXT_PUBLIC_FIREBASE_API_KEY', process.env.NEXT_PUBLIC_FIREBASE_API_KEY),
     authDomain: required('NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN', process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN),
     projectId: required('NEXT_PUBLIC_FIREBASE_PROJECT_ID', process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID),
@@ -28,7 +26,12 @@ export function initFirebase(): void {
     appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
     // measurementId is optional; only needed if you use Analytics (browser-only)
   };
+}
 
+export function initFirebase(): void {
+  if (!isClient || app) return;
+
+  const config = firebaseConfig();
   app = getApps().length ? getApp() : initializeApp(config);
   auth = getAuth(app);
   db = getFirestore(app);
@@ -54,5 +57,16 @@ export function requireDb(): Firestore {
   return db;
 }
 
+// Server-side (route handlers) Firestore: separate named app, no browser persistence, no user session.
+// Only reads documents the security rules expose publicly (e.g. calendarFeeds/{token}).
+let serverDb: Firestore | undefined;
+export function requireServerDb(): Firestore {
+  if (serverDb) return serverDb;
+  const name = 'server';
+  const serverApp = getApps().find((a) => a.name === name) ?? initializeApp(firebaseConfig(), name);
+  serverDb = getFirestore(serverApp);
+  return serverDb;
+}
+
 // Legacy named exports: will be undefined on the server until init runs on the client.
 export { app, auth, db };
@@ -0,0 +1,74 @@
+// Completion forecast from the user's own pace: rolling velocity is the mean
+// daily credit a goal earned (DayPlan.credits) over the last few weeks, and
+// the confidence band comes from how much that credit varied day to day.
+
+import type { DayPlan, Goal } from '@/lib/types';
+
+export const VELOCITY_WINDOW_DAYS = 14;
+const MIN_SAMPLE_DAYS = 3;
+const Z_80 = 1.28; // ~80% two-sided band
+
+export type ForecastStatus = 'on track' | 'at risk' | 'off track';
+
+export interface Forecast {
+  days: number;          // days of history used
+  velocity: number;      // mean progress points per day
+  avgPercent: number;    // velocity as a share of the goal's daily weight (0..100)
+  projected?: string;    // completion date at the mean pace
+  earliest?: string;     // fast end of the band
+  latest?: string;       // slow end of the band (undefined = no end in sight)
+  status: ForecastStatus;
+}
+
+const parse = (iso: string) => new Date(iso + 'T00:00:00');
+const fmt = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+const addDays = (iso: string, n: number) => { const d = parse(iso); d.setDate(d.getDate() + n); return fmt(d); };
+
+const finishDate = (today: string, remaining: number, perDay: number) =>
+  perDay > 0 ? addDays(today, Math.ceil(remaining / perDay)) : undefined;
+
+/**
+ * Forecast for a goal, or null when there isn't enough history yet (goal
+ * started under MIN_SAMPLE_DAYS ago). Days without a plan count as zero —
+ * skipped days are part of the real pace. Today is left out as it's still
+ * in progress.
+ */
+export function forecastGoal(
+  g: Goal,
+  plans: Record<string, DayPlan>,
+  today: string,
+  windowDays: number = VELOCITY_WINDOW_DAYS,
+): Forecast | null {
+  const samples: number[] = [];
+  for (let i = windowDays; i >= 1; i--) {
+    const day = addDays(today, -i);
+    if (day < g.startDate) continue;
+    samples.push(plans[day]?.credits?.[g.id] ?? 0);
+  }
+  if (samples.length < MIN_SAMPLE_DAYS) return null;
+
+  const n = samples.length;
+  const velocity = samples.reduce((s, x) => s + x, 0) / n;
+  const variance = samples.reduce((s, x) => s + (x - velocity) ** 2, 0) / Math.max(1, n - 1);
+  const margin = (Z_80 * Math.sqrt(variance)) / Math.sqrt(n);
+  const weight = g.dailyWeight ?? 5;
+
+  const remaining = Math.max(0, 100 - g.progress);
+  const projected = finishDate(today, remaining, velocity);
+  const earliest = finishDate(today, remaining, velocity + margin);
+  const latest = finishDate(today, remaining, velocity - margin);
+
+  const status: ForecastStatus =
+    remaining <= 0 ? 'on track'
+    : !projected || projected > g.targetDate ? 'off track'
+    : latest && latest <= g.targetDate ? 'on track'
+    : 'at risk';
+
+  return {
+    days: n,
+    velocity: Math.round(velocity * 10) / 10,
+    avgPercent: Math.min(100, Math.round((velocity / weight) * 100)),
+    projected, earliest, latest, status,
+  };
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import type { Goal } from '@/lib/types';
+import { applyAutoStatus, completeGoal, reopenGoal } from './goalStatus';
+
+const goal = (progress: number): Goal => ({
+  id: 'g', title: 'g', note: '', startDate: '2025-01-01', targetDate: '2025-12-31', priority: 'Medium',
+  status: 'Active', progress, dailyWeight: 5, createdAt: '', updatedAt: '',
+});
+
+describe('reopenGoal', () => {
+  it('reopens a completed goal that is below 100%', () => {
+    const reopened = reopenGoal(completeGoal(goal(80), '2025-03-10'));
+    expect(reopened.status).toBe('Active');
+    expect(reopened.completedAt).toBeUndefined();
+  });
+
+  it('keeps a goal at 100% completed instead of bouncing it back', () => {
+    const done = completeGoal(goal(100), '2025-03-10');
+    expect(reopenGoal(done)).toBe(done);
+    expect(applyAutoStatus(reopenGoal(done), '2025-03-11').status).toBe('Completed');
+  });
+});
@@ -0,0 +1,63 @@
+// Goal status lifecycle: Active ⇄ Paused, → Completed, → Dropped (with a reason), and back.
+
+import type { Goal } from '@/lib/types';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const daysBetween = (fromISO: string, toISO: string) =>
+  Math.round((new Date(toISO + 'T00:00:00').getTime() - new Date(fromISO + 'T00:00:00').getTime()) / DAY_MS);
+
+const shiftDate = (iso: string, days: number) => {
+  const d = new Date(iso + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const touch = (g: Goal): Goal => ({ ...g, updatedAt: new Date().toISOString() });
+
+const LIFECYCLE_FIELDS = ['pausedAt', 'completedAt', 'autoCompleted', 'droppedAt', 'dropReason'] as const;
+
+const withoutLifecycle = (g: Goal): Goal => {
+  const rest = { ...g };
+  for (const k of LIFECYCLE_FIELDS) delete rest[k];
+  return rest;
+};
+
+/** Days the goal has been paused so far (0 unless Paused). */
+export const pausedDays = (g: Goal, today: string) =>
+  g.status === 'Paused' && g.pausedAt ? Math.max(0, daysBetween(g.pausedAt, today)) : 0;
+
+/** Target date as it will be after resuming today (paused time is added on). */
+export const effectiveTargetDate = (g: Goal, today: string) => shiftDate(g.targetDate, pausedDays(g, today));
+
+export const pauseGoal = (g: Goal, today: string): Goal =>
+  g.status !== 'Active' ? g : touch({ ...withoutLifecycle(g), status: 'Paused', pausedAt: today });
+
+// Resuming shifts the deadline by however long the goal sat paused.
+export const resumeGoal = (g: Goal, today: string): Goal =>
+  g.status !== 'Paused' ? g : touch({ ...withoutLifecycle(g), status: 'Active', targetDate: effectiveTargetDate(g, today) });
+
+export const completeGoal = (g: Goal, today: string, auto = false): Goal =>
+  g.status === 'Completed' ? g : touch({ ...withoutLifecycle(g), status: 'Completed', completedAt: today, ...(auto ? { autoCompleted: true } : {}) });
+
+export const dropGoal = (g: Goal, reason: string, today: string): Goal => {
+  if (!reason.trim()) throw new Error('[Goal] A reason is required to drop a goal.');
+  return touch({ ...withoutLifecycle(g), status: 'Dropped', droppedAt: today, dropReason: reason.trim() });
+};
+
+// At 100% a reopened goal would complete itself again on the next credit, so it has to come down first.
+export const canReopen = (g: Goal) => g.status !== 'Active' && g.progress < 100;
+
+export const reopenGoal = (g: Goal): Goal =>
+  !canReopen(g) ? g : touch({ ...withoutLifecycle(g), status: 'Active' });
+
+/**
+ * Status implied by progress alone: Active goals complete themselves at 100%,
+ * and an automatic completion is undone if progress falls back (e.g. a task
+ * tapped back down the same day).
+ */
+export const applyAutoStatus = (g: Goal, today: string): Goal => {
+  if (g.status === 'Active' && g.progress >= 100) return completeGoal(g, today, true);
+  if (g.status === 'Completed' && g.autoCompleted && g.progress < 100) return reopenGoal(g);
+  return g;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { DayPlan, Goal, Task } from '@/lib/types';
+import { backfillCredits, planWeights } from './ledger';
+
+const goal = (id: string, dailyWeight: number): Goal => ({
+  id, title: id, note: '', startDate: '2025-01-01', targetDate: '2025-12-31', priority: 'Medium',
+  status: 'Active', progress: 20, dailyWeight, createdAt: '', updatedAt: '',
+});
+const task = (id: string, goalId: string, percent: number): Task => ({ id, goalId, title: id, percent });
+const day = (tasks: Task[], credits: Record<string, number>): DayPlan => ({
+  date: '2025-03-10', priorities: ['a', 'b'], tasks, credits, postponeFlags: {},
+});
+
+describe('planWeights', () => {
+  it('prices every planned goal at its current weight unless the day recorded one', () => {
+    const plan = day([task('t1', 'a', 50)], {});
+    expect(planWeights({ ...plan, priorities: ['a', 'b'] }, [goal('a', 4), goal('b', 20)], { a: 10 })).toEqual({ a: 10, b: 20 });
+  });
+});
+
+describe('backfillCredits', () => {
+  // That day both goals were credited at weight 10; since then a's weight went to 4 and b's to 20.
+  const goals = [goal('a', 4), goal('b', 20)];
+  const before = { ...day([task('t1', 'a', 50), task('t2', 'b', 50)], { a: 5, b: 5 }), creditWeights: { a: 10, b: 10 } };
+
+  it('leaves goals the edit did not touch at their stored credit', () => {
+    const after = { ...before, tasks: [task('t1', 'a', 100), task('t2', 'b', 50)] };
+    expect(backfillCredits(before, after, goals).credits).toEqual({ a: 10, b: 5 });
+  });
+
+  it('credits a touched goal at the weight the day recorded', () => {
+    const after = { ...before, tasks: [task('t1', 'a', 50), task('t2', 'b', 30)] };
+    expect(backfillCredits(before, after, goals)).toEqual({ credits: { a: 5, b: 3 }, weights: { a: 10, b: 10 } });
+  });
+
+  it('uses the recorded weight even when the day had no credit yet', () => {
+    const empty = { ...day([task('t1', 'a', 0)], {}), creditWeights: { a: 10 } };
+    const after = { ...empty, tasks: [task('t1', 'a', 30)] };
+    expect(backfillCredits(empty, after, goals).credits).toEqual({ a: 3 });
+  });
+
+  it('prices a goal the day never recorded at its current weight, and records it', () => {
+    const after = { ...before, tasks: [...before.tasks, task('t3', 'c', 100)] };
+    const { credits, weights } = backfillCredits(before, after, [...goals, goal('c', 6)]);
+    expect(credits).toEqual({ a: 5, b: 5, c: 6 });
+    expect(weights.c).toBe(6);
+  });
+});
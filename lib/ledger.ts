@@ -0,0 +1,173 @@
+// Per-goal progress ledger: what moved a goal's progress on each day, split
+// into planner credits and manual adjustments. Kept on the goal doc, keyed by
+// date, so the burn-up chart can replay how progress evolved. Alongside it the
+// goal keeps an audit log of individual changes (credits coalesced per day,
+// adjustments one entry each with their note).
+
+import type { DayPlan, Goal, GoalLedgerDay, ProgressEvent, Task } from '@/lib/types';
+import { creditPercent, weightedPercent } from '@/lib/effort';
+import { creditMilestone, hasMilestones } from '@/lib/milestones';
+
+export const AUDIT_LIMIT = 200;
+
+const clamp = (n: number, a: number, b: number) => Math.max(a, Math.min(b, n));
+const eventId = () => Math.random().toString(36).slice(2, 10);
+
+const parse = (iso: string) => new Date(iso + 'T00:00:00');
+const fmt = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+/** Add `delta` progress points to the goal's ledger for `date`. */
+export const recordProgress = (g: Goal, date: string, kind: keyof GoalLedgerDay, delta: number): Goal => {
+  if (!delta) return g;
+  const day = g.ledger?.[date] ?? { credited: 0, adjusted: 0 };
+  return { ...g, ledger: { ...(g.ledger ?? {}), [date]: { ...day, [kind]: day[kind] + delta } } };
+};
+
+const appendEvent = (g: Goal, e: ProgressEvent): Goal => ({ ...g, audit: [...(g.audit ?? []), e].slice(-AUDIT_LIMIT) });
+
+const DEFAULT_WEIGHT = 5;
+
+/**
+ * The daily weight each goal a day plans is credited at. While the day is
+ * today that's the goal's current weight, and the day records it
+ * (`creditWeights`); edits to a past day reuse what it recorded, so a weight
+ * changed since doesn't reprice the day.
+ */
+export function planWeights(plan: DayPlan, goals: Goal[], recorded: Record<string, number> = {}): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const gid of new Set([...plan.priorities, ...plan.tasks.map((t) => t.goalId)])) {
+    weights[gid] = recorded[gid] ?? goals.find((g) => g.id === gid)?.dailyWeight ?? DEFAULT_WEIGHT;
+  }
+  return weights;
+}
+
+/**
+ * Progress points a day's tasks earn each goal: the goal's daily weight scaled
+ * by the effort-weighted completion of its tasks that day (carried-over
+ * progress excluded). Goals credited before but without tasks now map to 0,
+ * so their credit is taken back.
+ */
+export function dayCredits(plan: DayPlan, weights: Record<string, number>): Record<string, number> {
+  const byGoal = new Map<string, Task[]>();
+  for (const t of plan.tasks) byGoal.set(t.goalId, [...(byGoal.get(t.goalId) ?? []), t]);
+
+  const credits: Record<string, number> = {};
+  byGoal.forEach((tasks, gid) => {
+    credits[gid] = Math.round((weightedPercent(tasks, creditPercent) / 100) * (weights[gid] ?? DEFAULT_WEIGHT));
+  });
+  for (const gid of Object.keys(plan.credits ?? {})) if (!(gid in credits)) credits[gid] = 0;
+  return credits;
+}
+
+// What of a goal's tasks affects its credit, in a comparable form.
+const creditInputs = (plan: DayPlan, goalId: string) =>
+  plan.tasks
+    .filter((t) => t.goalId === goalId)
+    .map((t) => `${t.id}:${t.percent}:${t.carriedPercent ?? 0}:${t.estimateMin ?? 0}`)
+    .sort()
+    .join('|');
+
+/**
+ * Credits (and the weights behind them) for a past day after an edit
+ * (`before` → `after`). Only goals whose tasks changed are recomputed, at the
+ * weight the day recorded for them; every other goal keeps its stored credit.
+ * A goal the day never credited is priced at its current weight.
+ */
+export function backfillCredits(
+  before: DayPlan, after: DayPlan, goals: Goal[],
+): { credits: Record<string, number>; weights: Record<string, number> } {
+  const weights = planWeights(after, goals, before.creditWeights);
+  const recomputed = dayCredits(after, weights);
+  const credits = { ...(before.credits ?? {}) };
+  for (const gid of new Set([...before.tasks, ...after.tasks].map((t) => t.goalId))) {
+    if (creditInputs(before, gid) !== creditInputs(after, gid)) credits[gid] = recomputed[gid] ?? 0;
+  }
+  return { credits, weights: { ...(before.creditWeights ?? {}), ...weights } };
+}
+
+/**
+ * Ledger + audit for a planner credit; repeated credits on one day update a
+ * single entry. Credits for a past day (`backfilled`) get an entry of their own.
+ */
+export const recordCredit = (before: Goal, after: Goal, date: string, backfilled = false): Goal => {
+  const delta = after.progress - before.progress;
+  if (!delta) return after;
+  const out = recordProgress(after, date, 'credited', delta);
+  const log = out.audit ?? [];
+  const last = log[log.length - 1];
+  const at = new Date().toISOString();
+  if (last?.kind === 'credit' && last.date === date && !!last.backfilled === backfilled) {
+    const merged = { ...last, delta: last.delta + delta, progress: after.progress, at };
+    return { ...out, audit: [...log.slice(0, -1), ...(merged.delta ? [merged] : [])] };
+  }
+  return appendEvent(out, {
+    id: eventId(), at, date, kind: 'credit', delta, progress: after.progress,
+    ...(backfilled ? { backfilled: true } : {}),
+  });
+};
+
+/** Ledger + audit for any change made by hand (an adjustment, or milestone edits). */
+export const recordAdjustment = (before: Goal, after: Goal, date: string, note: string, milestoneId?: string): Goal => {
+  const delta = after.progress - before.progress;
+  if (!delta) return after;
+  return appendEvent(recordProgress(after, date, 'adjusted', delta), {
+    id: eventId(), at: new Date().toISOString(), date, kind: 'adjustment', delta, progress: after.progress, note,
+    ...(milestoneId ? { milestoneId } : {}),
+  });
+};
+
+/**
+ * Move progress by hand, e.g. for work done outside the planner or to correct
+ * a credit. Goals with milestones take it on a milestone (their progress is
+ * derived). The applier only ever applies credit *differences*, so nothing
+ * here is undone by the next recompute.
+ */
+export function adjustProgress(g: Goal, delta: number, note: string, date: string, milestoneId?: string): Goal {
+  if (!note.trim()) throw new Error('[Goal] A note is required to adjust progress.');
+  const target = hasMilestones(g) ? milestoneId ?? g.milestones![0].id : undefined;
+  const after = target
+    ? creditMilestone(g, target, delta)
+    : { ...g, progress: clamp(g.progress + Math.round(delta), 0, 100) };
+  return recordAdjustment(g, { ...after, updatedAt: new Date().toISOString() }, date, note.trim(), target);
+}
+
+const ledgerTotal = (g: Goal) =>
+  Object.values(g.ledger ?? {}).reduce((s, d) => s + d.credited + d.adjusted, 0);
+
+export interface BurnUpPoint {
+  date: string;
+  actual: number | null; // cumulative progress; null after today
+  ideal: number;         // straight line 0 → 100 from startDate to targetDate
+}
+
+/**
+ * Day-by-day series from startDate to targetDate (or today, if later).
+ * Progress from before the ledger existed is counted as the opening balance.
+ */
+export function burnUpSeries(g: Goal, today: string): BurnUpPoint[] {
+  const start = g.startDate;
+  const end = g.targetDate > today ? g.targetDate : today;
+  if (!start || start > end) return [];
+  const span = Math.max(1, Math.round((parse(g.targetDate).getTime() - parse(start).getTime()) / 86400000));
+
+  const ledger = g.ledger ?? {};
+  const early = Object.entries(ledger)
+    .filter(([d]) => d < start)
+    .reduce((s, [, v]) => s + v.credited + v.adjusted, 0);
+  let actual = g.progress - ledgerTotal(g) + early;
+
+  const out: BurnUpPoint[] = [];
+  const d = parse(start);
+  for (let i = 0; fmt(d) <= end; i++, d.setDate(d.getDate() + 1)) {
+    const date = fmt(d);
+    const day = ledger[date];
+    if (day) actual += day.credited + day.adjusted;
+    out.push({
+      date,
+      actual: date <= today ? Math.max(0, Math.min(100, actual)) : null,
+      ideal: Math.min(100, Math.round((i / span) * 100)),
+    });
+  }
+  return out;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { Goal, Milestone } from '@/lib/types';
+import { creditMilestone, mergeMilestoneEdits, moveMilestoneCredit, newMilestoneProgress, withMilestones } from './milestones';
+
+const ms = (id: string, progress: number, weight = 1): Milestone => ({ id, title: id, weight, progress });
+const goal = (milestones: Milestone[]): Goal => withMilestones({
+  id: 'g', title: 'g', note: '', startDate: '2025-01-01', targetDate: '2025-12-31', priority: 'Medium',
+  status: 'Active', progress: 0, dailyWeight: 5, createdAt: '', updatedAt: '',
+}, milestones);
+const progressOf = (g: Goal) => g.milestones!.map((m) => m.progress);
+
+describe('creditMilestone', () => {
+  it('scales goal points up by the milestone share', () => {
+    const g = creditMilestone(goal([ms('a', 0), ms('b', 0)]), 'a', 10);
+    expect(progressOf(g)).toEqual([20, 0]);
+    expect(g.progress).toBe(10);
+  });
+
+  it('restores the milestone when a credit past 100% is taken back', () => {
+    const start = goal([ms('a', 95), ms('b', 0)]);
+    const up = creditMilestone(start, 'a', 20);
+    expect(progressOf(up)).toEqual([100, 0]);
+    const down = creditMilestone(up, 'a', -20);
+    expect(progressOf(down)).toEqual([95, 0]);
+    expect(down.progress).toBe(start.progress);
+  });
+
+  it('moves a credit between milestones without losing any of it', () => {
+    const start = goal([ms('a', 95), ms('b', 10)]);
+    const credited = creditMilestone(start, 'a', 20);
+    const moved = moveMilestoneCredit(credited, 'a', 'b', 20);
+    expect(progressOf(moved)).toEqual([95, 50]);
+    expect(progressOf(moveMilestoneCredit(moved, 'b', 'a', 20))).toEqual([100, 10]);
+  });
+});
+
+describe('mergeMilestoneEdits', () => {
+  it('keeps credit that landed while the form was open', () => {
+    const opened = goal([ms('a', 0), ms('b', 0)]);
+    const latest = creditMilestone(opened, 'a', 10);
+    const edited = [{ ...opened.milestones![0], title: 'Renamed' }, opened.milestones![1], ms('c', 0)];
+
+    const merged = withMilestones(latest, mergeMilestoneEdits(latest.milestones, edited));
+    expect(merged.milestones!.map((m) => [m.title, m.progress])).toEqual([['Renamed', 30], ['b', 0], ['c', 0]]);
+  });
+});
+
+describe('newMilestoneProgress', () => {
+  it("lets a goal's first milestones keep its progress", () => {
+    const plain = { ...goal([]), progress: 40 };
+    const seeded = withMilestones(plain, [ms('a', newMilestoneProgress(plain)), ms('b', newMilestoneProgress(plain), 3)]);
+    expect(seeded.progress).toBe(40);
+    expect(newMilestoneProgress(seeded)).toBe(0);
+  });
+});
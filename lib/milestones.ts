@@ -0,0 +1,84 @@
+// Milestones under a goal. When a goal has milestones its progress is derived
+// from them (weighted average), and planner credits land on one milestone.
+
+import type { Goal, Milestone } from '@/lib/types';
+
+const clamp = (n: number, a: number, b: number) => Math.max(a, Math.min(b, n));
+
+const totalWeight = (ms: Milestone[]) => ms.reduce((s, m) => s + Math.max(0, m.weight), 0);
+
+
+export const hasMilestones = (g: Goal) => (g.milestones?.length ?? 0) > 0;
+
+// Credited points are goal-percent, so they count for more on a milestone with a small share of the weight.
+const settle = (m: Milestone, total: number): Milestone => {
+  if (m.credited === undefined) return m;
+  const step = m.weight > 0 && total ? Math.round((m.credited * total) / m.weight) : 0;
+  return { ...m, progress: clamp((m.base ?? 0) + step, 0, 100) };
+};
+
+/** Weighted average of milestone progress (0..100), with credited points re-derived at the current weights. */
+export const rollupProgress = (ms: Milestone[]) => {
+  const total = totalWeight(ms);
+  if (!total) return 0;
+  return Math.round(ms.reduce((s, m) => s + settle(m, total).progress * Math.max(0, m.weight), 0) / total);
+};
+
+/** Replace the milestones and re-derive their progress, and the goal's, from them. */
+export const withMilestones = (g: Goal, milestones: Milestone[]): Goal => {
+  if (!milestones.length) {
+    const rest = { ...g };
+    delete rest.milestones;
+    return rest;
+  }
+  const total = totalWeight(milestones);
+  const settled = milestones.map((m) => settle(m, total));
+  return { ...g, milestones: settled, progress: rollupProgress(settled) };
+};
+
+/**
+ * Milestone edits from a form opened earlier, applied to the latest copy:
+ * which milestones exist and their title, weight and date come from the form;
+ * progress (including credit that landed while it was open) from `latest`.
+ */
+export const mergeMilestoneEdits = (latest: Milestone[] = [], edited: Milestone[]): Milestone[] =>
+  edited.map((m) => {
+    const cur = latest.find((x) => x.id === m.id);
+    if (!cur) return m;
+    const out: Milestone = { ...cur, title: m.title, weight: m.weight };
+    if (m.targetDate) out.targetDate = m.targetDate; else delete out.targetDate;
+    return out;
+  });
+
+/**
+ * Progress a milestone added in a form starts at. A goal's first milestones
+ * take over its progress, so adding them doesn't reset it to 0.
+ */
+export const newMilestoneProgress = (g?: Goal | null) => (g && !hasMilestones(g) ? g.progress : 0);
+
+/** The milestone credits go to by default: the earliest-due one that isn't finished yet. */
+export const nextMilestone = (g: Goal): Milestone | undefined => {
+  const open = (g.milestones ?? []).filter((m) => m.progress < 100);
+  return [...open].sort((a, b) => (a.targetDate || '9999') < (b.targetDate || '9999') ? -1 : 1)[0]
+    ?? g.milestones?.[g.milestones.length - 1];
+};
+
+/**
+ * Apply `diff` goal-percent points to one milestone. Credits are measured
+ * against the whole goal (so daily weights and the deadline helper keep their
+ * meaning), hence scaled up by the milestone's share of the total weight.
+ * The points are kept unclamped, so taking a credit back restores exactly the
+ * progress the milestone had before.
+ */
+export const creditMilestone = (g: Goal, milestoneId: string, diff: number): Goal => {
+  const ms = g.milestones ?? [];
+  const m = ms.find((x) => x.id === milestoneId);
+  if (!m || m.weight <= 0 || !totalWeight(ms) || diff === 0) return g;
+  return withMilestones(g, ms.map((x) => (
+    x.id === milestoneId ? { ...x, base: x.base ?? x.progress, credited: (x.credited ?? 0) + diff } : x
+  )));
+};
+
+/** Re-target credit already applied today from one milestone to another. */
+export const moveMilestoneCredit = (g: Goal, from: string, to: string, credit: number): Goal =>
+  from === to || !credit ? g : creditMilestone(creditMilestone(g, from, -credit), to, credit);
@@ -0,0 +1,27 @@
+// Manual ordering of a day's tasks within each goal. Each task carries its own
+// `order`, so a reorder is an ordinary task edit and syncs (and merges) like
+// one. Tasks without an order yet (new ones, older data) sort first, in the
+// order they were added.
+
+import type { DayPlan, Task } from '@/lib/types';
+
+const rank = (t: Task) => t.order ?? Number.NEGATIVE_INFINITY;
+
+/** Tasks in display order (stable for equal ranks). */
+export const sortTasks = (tasks: Task[]): Task[] =>
+  tasks.map((t, i) => ({ t, i }))
+    .sort((a, b) => (rank(a.t) === rank(b.t) ? a.i - b.i : rank(a.t) < rank(b.t) ? -1 : 1))
+    .map(({ t }) => t);
+
+/** A goal's tasks for the day, in display order. */
+export const goalTasks = (plan: DayPlan, goalId: string) => sortTasks(plan.tasks.filter((t) => t.goalId === goalId));
+
+/** Put `goalId`'s tasks in the order of `ids`; only tasks whose position changed are touched. */
+export function reorderTasks(plan: DayPlan, goalId: string, ids: string[]): DayPlan {
+  const pos = new Map(ids.map((id, i) => [id, i]));
+  return {
+    ...plan,
+    tasks: plan.tasks.map((t) =>
+      t.goalId === goalId && pos.has(t.id) && t.order !== pos.get(t.id) ? { ...t, order: pos.get(t.id) } : t),
+  };
+}
@@ -0,0 +1,66 @@
+// Recurring task templates attached to a goal. Due templates are instantiated
+// into the day's plan with a deterministic task id, so two devices opening the
+// same day agree, and a deleted instance (tombstone or trash) isn't recreated.
+
+import type { DayPlan, Goal, Task, TaskTemplate, TemplateSchedule } from '@/lib/types';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const parse = (iso: string) => new Date(iso + 'T00:00:00');
+const fmt = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+const addDays = (iso: string, n: number) => { const d = parse(iso); d.setDate(d.getDate() + n); return fmt(d); };
+const daysBetween = (a: string, b: string) => Math.round((parse(b).getTime() - parse(a).getTime()) / 86400000);
+
+export const templateTaskId = (templateId: string, date: string) => `${templateId}@${date}`;
+
+export const describeSchedule = (s: TemplateSchedule) =>
+  s.kind === 'daily' ? 'Daily'
+  : s.kind === 'weekdays' ? (s.days.length ? [...s.days].sort().map((d) => WEEKDAYS[d]).join(', ') : 'No days')
+  : `Every ${s.every} days`;
+
+const matches = (t: TaskTemplate, date: string) => {
+  if (date < t.startDate) return false;
+  const s = t.schedule;
+  if (s.kind === 'daily') return true;
+  if (s.kind === 'weekdays') return s.days.includes(parse(date).getDay());
+  return daysBetween(t.startDate, date) % Math.max(1, s.every) === 0;
+};
+
+export const isDue = (t: TaskTemplate, date: string) =>
+  !t.paused && !(t.skipDates ?? []).includes(date) && matches(t, date);
+
+/** First scheduled date on or after `from`, ignoring skips (undefined for an empty weekday set). */
+export const nextOccurrence = (t: TaskTemplate, from: string): string | undefined => {
+  for (let i = 0; i < 366; i++) {
+    const d = addDays(from, i);
+    if (matches(t, d) && !(t.skipDates ?? []).includes(d)) return d;
+  }
+  return undefined;
+};
+
+/** Skip the next occurrence on or after `from`; old skips are dropped along the way. */
+export const skipNext = (t: TaskTemplate, from: string): TaskTemplate => {
+  const d = nextOccurrence(t, from);
+  if (!d) return t;
+  return { ...t, skipDates: [...(t.skipDates ?? []).filter((x) => x >= from), d] };
+};
+
+/** Tasks due on the plan's day that aren't in it yet (and weren't deleted from it). */
+export function dueTemplateTasks(goals: Goal[], plan: DayPlan): Task[] {
+  const seen = new Set([
+    ...plan.tasks.map((t) => t.id),
+    ...Object.keys(plan.removedTasks ?? {}),
+    ...Object.keys(plan.trashedTasks ?? {}),
+  ]);
+  const out: Task[] = [];
+  for (const g of goals) {
+    if (g.status !== 'Active') continue;
+    for (const t of g.templates ?? []) {
+      const id = templateTaskId(t.id, plan.date);
+      if (seen.has(id) || !isDue(t, plan.date)) continue;
+      out.push({ id, goalId: g.id, title: t.title, ...(t.how ? { how: t.how } : {}), percent: 0, templateId: t.id });
+    }
+  }
+  return out;
+}
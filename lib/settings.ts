@@ -0,0 +1,16 @@
+// Planner settings with their defaults. Stored sparse: a missing field means
+// the default, so new settings need no migration.
+
+import type { PlannerSettings } from '@/lib/types';
+
+export const DEFAULT_SETTINGS: Required<Omit<PlannerSettings, 'updatedAt'>> = {
+  carryPartial: false,
+  autoPostpone: false,
+  postponeWarnAt: 3,
+  capacity: 0,
+  capacityUnit: 'hours',
+};
+
+export type ResolvedSettings = typeof DEFAULT_SETTINGS & Pick<PlannerSettings, 'updatedAt'>;
+
+export const resolveSettings = (s: PlannerSettings | undefined): ResolvedSettings => ({ ...DEFAULT_SETTINGS, ...(s ?? {}) });
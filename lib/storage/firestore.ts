@@ -0,0 +1,195 @@
+// Firestore backend: users/{uid}/goals, users/{uid}/plans, users/{uid}/meta,
+// and the planner settings at users/{uid}/settings/planner.
+
+import {
+  collection, deleteDoc, doc, getDoc, getDocs, onSnapshot, orderBy, query, runTransaction, setDoc, where,
+  writeBatch, type Firestore, type WriteBatch,
+} from 'firebase/firestore';
+import type { DayMeta, DayPlan, Goal, PlannerSettings } from '@/lib/types';
+import type { GoalsRepository } from './repository';
+import { load, save } from './local';
+import { mergePlans } from './merge';
+import { createPlanWriteQueue, type PlanQueueStorage } from './planQueue';
+import {
+  JOURNAL_GOALS_MERGED, SCHEMA_VERSION, goalFromJournalGoal, needsUpgrade, num, upgradeGoal, upgradeMeta, upgradePlan,
+  withVersion, type Doc,
+} from './migrations';
+
+const BATCH_LIMIT = 400;
+
+// Firestore rejects `undefined` fields (e.g. a task without `how`); drop them before writing.
+const clean = <T,>(d: T): T => JSON.parse(JSON.stringify(d)) as T;
+
+// Plan writes still waiting to be merged in, per account, so they survive a closed tab.
+const LS_PLAN_QUEUE = 'plan_write_queue_v1';
+
+const queueStorage = (userId: string): PlanQueueStorage | undefined =>
+  typeof window === 'undefined' ? undefined : {
+    load: () => load<DayPlan[]>(`${LS_PLAN_QUEUE}:${userId}`, []),
+    save: (plans) => {
+      const key = `${LS_PLAN_QUEUE}:${userId}`;
+      if (plans.length) save(key, plans); else localStorage.removeItem(key);
+    },
+  };
+
+const onReconnect = (run: () => void) => {
+  if (typeof window === 'undefined') return () => {};
+  window.addEventListener('online', run);
+  return () => window.removeEventListener('online', run);
+};
+
+/**
+ * Upgrade every goals/plans/meta document under users/{uid} that is behind
+ * SCHEMA_VERSION, then record the version on the user doc. Safe to re-run.
+ */
+export async function migrateFirestore(db: Firestore, userId: string): Promise<number> {
+  const userRef = doc(db, 'users', userId);
+  const applied = num((await getDoc(userRef)).data()?.schemaVersion, 0);
+  if (applied >= SCHEMA_VERSION) return applied;
+
+  const jobs: [string, (d: Doc) => object][] = [
+    ['goals', upgradeGoal],
+    ['plans', upgradePlan],
+    ['meta', upgradeMeta],
+  ];
+  let batch = writeBatch(db);
+  let pending = 0;
+  for (const [name, upgrade] of jobs) {
+    const snap = await getDocs(collection(db, 'users', userId, name));
+    for (const d of snap.docs) {
+      const data = d.data() as Doc;
+      if (!needsUpgrade(data)) continue;
+      batch.set(d.ref, upgrade(data));
+      if (++pending >= BATCH_LIMIT) {
+        await batch.commit();
+        batch = writeBatch(db);
+        pending = 0;
+      }
+    }
+  }
+  if (pending) await batch.commit();
+  if (applied < JOURNAL_GOALS_MERGED) await mergeJournalGoals(db, userId);
+  await setDoc(userRef, { schemaVersion: SCHEMA_VERSION, migratedAt: new Date().toISOString() }, { merge: true });
+  return SCHEMA_VERSION;
+}
+
+const titleKey = (v: unknown) => (typeof v === 'string' ? v.trim().toLowerCase() : '');
+
+/**
+ * Fold the journal's users/{uid}/ltgoals into users/{uid}/goals. A journal
+ * goal whose title matches a planner goal is merged into it and journal links
+ * are repointed; the rest become planner goals under their own id.
+ */
+async function mergeJournalGoals(db: Firestore, userId: string): Promise<void> {
+  const col = (name: string) => collection(db, 'users', userId, name);
+  const [legacy, goals, journal] = await Promise.all([getDocs(col('ltgoals')), getDocs(col('goals')), getDocs(col('journal'))]);
+  if (legacy.empty) return;
+
+  const ids = new Set(goals.docs.map((d) => d.id));
+  const byTitle = new Map(goals.docs.map((d) => [titleKey(d.data().title), d.id]));
+  const remap = new Map<string, string>();
+  const ops: ((b: WriteBatch) => void)[] = [];
+
+  legacy.forEach((d) => {
+    const data = d.data() as Doc;
+    const match = ids.has(d.id) ? d.id : byTitle.get(titleKey(data.title));
+    if (match) {
+      if (match !== d.id) remap.set(d.id, match);
+    } else {
+      const goal = goalFromJournalGoal(d.id, data);
+      ops.push((b) => b.set(doc(col('goals'), d.id), clean(goal)));
+    }
+    ops.push((b) => b.delete(d.ref));
+  });
+
+  journal.forEach((d) => {
+    const linked = d.data().linkedGoals;
+    if (!Array.isArray(linked) || !linked.some((id) => remap.has(id))) return;
+    const next = [...new Set(linked.map((id: string) => remap.get(id) ?? id))];
+    ops.push((b) => b.set(d.ref, { linkedGoals: next }, { merge: true }));
+  });
+
+  for (let i = 0; i < ops.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    ops.slice(i, i + BATCH_LIMIT).forEach((op) => op(batch));
+    await batch.commit();
+  }
+}
+
+export function createFirestoreRepository(db: Firestore, userId: string): GoalsRepository {
+  const goalsCol = () => collection(db, 'users', userId, 'goals');
+  const plansCol = () => collection(db, 'users', userId, 'plans');
+  const metaCol = () => collection(db, 'users', userId, 'meta');
+  const settingsDoc = () => doc(db, 'users', userId, 'settings', 'planner');
+
+  // Trust the document id over any stale `id` field stored in the body.
+  // Reads are upgraded in memory too, so nothing waits on migrate().
+  const toGoal = (id: string, data: Goal): Goal => {
+    const { id: _ignored, ...rest } = upgradeGoal(data);
+    return { id, ...rest } as Goal;
+  };
+  const toPlan = (data: DayPlan | undefined) => (data ? upgradePlan(data) : undefined);
+  const toMeta = (data: DayMeta | undefined) => (data ? upgradeMeta(data) : undefined);
+
+  const planQueue = createPlanWriteQueue((plan) => runTransaction(db, async (tx) => {
+    const ref = doc(plansCol(), plan.date);
+    const stored = toPlan((await tx.get(ref)).data() as DayPlan | undefined);
+    tx.set(ref, clean(withVersion(stored ? mergePlans(plan, stored) : plan)));
+  }), { storage: queueStorage(userId), onReconnect });
+
+  const listRange = async <T extends { date: string },>(
+    col: ReturnType<typeof collection>, startISO: string, endISO: string, upgrade: (d: T) => T,
+  ) => {
+    const snap = await getDocs(query(col, where('date', '>=', startISO), where('date', '<=', endISO)));
+    const out: Record<string, T> = {};
+    snap.forEach((d) => {
+      const data = upgrade(d.data() as T);
+      out[data.date] = data;
+    });
+    return out;
+  };
+
+  return {
+    kind: 'firestore',
+    migrate: () => migrateFirestore(db, userId),
+    close: () => planQueue.close(),
+
+    listGoals: async () => {
+      const snap = await getDocs(query(goalsCol(), orderBy('createdAt', 'desc')));
+      return snap.docs.map((d) => toGoal(d.id, d.data() as Goal));
+    },
+    // Goals are always saved whole, so overwrite: cleared lifecycle fields (pausedAt, dropReason…) must go.
+    saveGoal: async (goal) => {
+      await setDoc(doc(goalsCol(), goal.id), clean(withVersion(goal)));
+    },
+    deleteGoal: async (id) => {
+      await deleteDoc(doc(goalsCol(), id));
+    },
+    watchGoals: (cb) =>
+      onSnapshot(query(goalsCol(), orderBy('createdAt', 'desc')), (snap) => {
+        cb(snap.docs.map((d) => toGoal(d.id, d.data() as Goal)));
+      }),
+
+    getPlan: async (date) => toPlan((await getDoc(doc(plansCol(), date))).data() as DayPlan | undefined),
+    listPlans: (startISO, endISO) => listRange(plansCol(), startISO, endISO, upgradePlan),
+    // Merged with whatever another device wrote in the meantime. Transactions
+    // need the network; when one fails the write is queued (in localStorage
+    // too) and retried, never written over the stored day (lib/storage/planQueue.ts).
+    savePlan: (plan) => planQueue.save(plan),
+    watchPlan: (date, cb) =>
+      onSnapshot(doc(plansCol(), date), (snap) => cb(toPlan(snap.data() as DayPlan | undefined))),
+
+    getMeta: async (date) => toMeta((await getDoc(doc(metaCol(), date))).data() as DayMeta | undefined),
+    listMeta: (startISO, endISO) => listRange(metaCol(), startISO, endISO, upgradeMeta),
+    saveMeta: async (m) => {
+      await setDoc(doc(metaCol(), m.date), clean(withVersion(m)), { merge: true });
+    },
+    watchMeta: (date, cb) =>
+      onSnapshot(doc(metaCol(), date), (snap) => cb(toMeta(snap.data() as DayMeta | undefined))),
+
+    getSettings: async () => (await getDoc(settingsDoc())).data() as PlannerSettings | undefined,
+    saveSettings: async (settings) => {
+      await setDoc(settingsDoc(), clean(settings));
+    },
+  };
+}
@@ -0,0 +1,16 @@
+import type { User } from 'firebase/auth';
+import { requireDb } from '@/lib/firebase';
+import type { GoalsRepository } from './repository';
+import type { MemorySnapshot } from './memory';
+import { createFirestoreRepository } from './firestore';
+import { createLocalRepository } from './local';
+
+export type { GoalsRepository, Unsubscribe } from './repository';
+export { createMemoryRepository, type MemorySnapshot } from './memory';
+export { createLocalRepository } from './local';
+export { createFirestoreRepository } from './firestore';
+
+// Signed-in users get Firestore; everyone else falls back to localStorage.
+export function createRepository(user: User | null, seed: Partial<MemorySnapshot> = {}): GoalsRepository {
+  return user ? createFirestoreRepository(requireDb(), user.uid) : createLocalRepository(seed);
+}
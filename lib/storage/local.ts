@@ -0,0 +1,107 @@
+// localStorage backend (signed-out use). Keeps the historical key names so
+// existing browser data keeps loading.
+
+import type { DayMeta, DayPlan, Goal, PlannerSettings } from '@/lib/types';
+import type { GoalsRepository } from './repository';
+import { createMemoryRepository, type MemorySnapshot } from './memory';
+import { SCHEMA_VERSION, num, upgradeGoal, upgradeMeta, upgradePlan, type Doc } from './migrations';
+
+export const LS_GOALS = 'goals_v3_longterm';
+export const LS_PLANS = 'plans_v5_focus_history';
+export const LS_META  = 'daymeta_v3_reflection';
+export const LS_SCHEMA = 'goals_app_schema';
+export const LS_SETTINGS = 'planner_settings_v1';
+
+// Older releases bumped the key name instead of migrating (goals_v1…, plans_v4…).
+const LEGACY = [
+  { current: LS_GOALS, pattern: /^goals_v\d+/, keyOf: (d: Doc) => d.id },
+  { current: LS_PLANS, pattern: /^plans_v\d+/, keyOf: (d: Doc) => d.date },
+  { current: LS_META,  pattern: /^daymeta_v\d+/, keyOf: (d: Doc) => d.date },
+] as const;
+
+export const load = <T,>(key: string, fallback: T): T => {
+  try { const raw = localStorage.getItem(key); return raw ? (JSON.parse(raw) as T) : fallback; } catch { return fallback; }
+};
+export const save = (key: string, value: unknown) => localStorage.setItem(key, JSON.stringify(value));
+
+// Stored either as an array or a keyed record; normalize to a record.
+const asRecord = (v: unknown, keyOf: (d: Doc) => unknown): Record<string, Doc> => {
+  if (!v || typeof v !== 'object') return {};
+  const out: Record<string, Doc> = {};
+  const entries = Array.isArray(v) ? (v as Doc[]).map((d) => ['', d] as const) : Object.entries(v as Record<string, Doc>);
+  for (const [key, d] of entries) {
+    if (!d || typeof d !== 'object') continue;
+    const k = keyOf(d) ?? key;
+    if (typeof k === 'string' && k) out[k] = d;
+  }
+  return out;
+};
+
+/**
+ * Upgrade localStorage in place: fold abandoned older keys into the current
+ * ones (current data wins), upgrade every record and record the version
+ * under LS_SCHEMA. Returns the applied version.
+ */
+export function migrateLocalStorage(): number {
+  const applied = num(load<Doc>(LS_SCHEMA, {}).version, 0);
+  if (applied >= SCHEMA_VERSION) return applied;
+
+  const collect = ({ current, pattern, keyOf }: (typeof LEGACY)[number]) => {
+    const older: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const k = localStorage.key(i);
+      if (k && k !== current && pattern.test(k)) older.push(k);
+    }
+    let merged: Record<string, Doc> = {};
+    for (const k of older.sort()) merged = { ...merged, ...asRecord(load(k, null), keyOf) };
+    return { ...merged, ...asRecord(load(current, null), keyOf) };
+  };
+  const [goalDocs, planDocs, metaDocs] = LEGACY.map(collect);
+
+  try {
+    const goals = Object.values(goalDocs).map(upgradeGoal);
+    // Leave the key absent when there was never anything, so first-run seeding still applies.
+    if (goals.length || localStorage.getItem(LS_GOALS) !== null) save(LS_GOALS, goals);
+    save(LS_PLANS, Object.fromEntries(Object.entries(planDocs).map(([date, p]) => [date, upgradePlan({ date, ...p })])));
+    save(LS_META, Object.fromEntries(Object.entries(metaDocs).map(([date, m]) => [date, upgradeMeta({ date, ...m })])));
+    save(LS_SCHEMA, { version: SCHEMA_VERSION, migratedAt: new Date().toISOString() });
+  } catch {
+    return applied; // quota / private mode: retry next load
+  }
+  return SCHEMA_VERSION;
+}
+
+export function readLocalSnapshot(seed: Partial<MemorySnapshot> = {}): MemorySnapshot {
+  return {
+    goals: load<Goal[]>(LS_GOALS, seed.goals ?? []),
+    plans: load<Record<string, DayPlan>>(LS_PLANS, seed.plans ?? {}),
+    meta: load<Record<string, DayMeta>>(LS_META, seed.meta ?? {}),
+    settings: load<PlannerSettings | undefined>(LS_SETTINGS, seed.settings),
+  };
+}
+
+export function createLocalRepository(seed: Partial<MemorySnapshot> = {}): GoalsRepository {
+  const version = migrateLocalStorage();
+  const repo = createMemoryRepository(readLocalSnapshot(seed), (snap) => {
+    try {
+      save(LS_GOALS, snap.goals);
+      save(LS_PLANS, snap.plans);
+      save(LS_META, snap.meta);
+      if (snap.settings) save(LS_SETTINGS, snap.settings);
+    } catch {
+      // quota / private mode: keep working from memory
+    }
+  });
+  return { ...repo, kind: 'local', migrate: async () => version };
+}
+
+/** Drop the signed-out data (after it has been imported into an account, or discarded). */
+export function clearLocalData(): void {
+  try {
+    localStorage.removeItem(LS_GOALS);
+    localStorage.removeItem(LS_PLANS);
+    localStorage.removeItem(LS_META);
+  } catch {
+    // nothing to clear
+  }
+}
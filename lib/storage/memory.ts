@@ -0,0 +1,94 @@
+// In-memory backend. Used directly in tests and as the core of the localStorage backend.
+
+import type { DayMeta, DayPlan, Goal, PlannerSettings } from '@/lib/types';
+import { mergePlans } from './merge';
+import { SCHEMA_VERSION, upgradeGoal, upgradeMeta, upgradePlan } from './migrations';
+import { inRange, sortGoals, type GoalsRepository, type Unsubscribe } from './repository';
+
+export interface MemorySnapshot {
+  goals: Goal[];
+  plans: Record<string, DayPlan>;
+  meta: Record<string, DayMeta>;
+  settings?: PlannerSettings;
+}
+
+type Listener = () => void;
+
+export function createMemoryRepository(
+  initial: Partial<MemorySnapshot> = {},
+  onChange?: (snapshot: MemorySnapshot) => void,
+): GoalsRepository & { snapshot(): MemorySnapshot } {
+  const mapValues = <T,>(src: Record<string, T>, fn: (v: T) => T) =>
+    Object.fromEntries(Object.entries(src).map(([k, v]) => [k, fn(v)]));
+  const state: MemorySnapshot = {
+    goals: (initial.goals ?? []).map(upgradeGoal),
+    plans: mapValues(initial.plans ?? {}, upgradePlan),
+    meta: mapValues(initial.meta ?? {}, upgradeMeta),
+    ...(initial.settings ? { settings: initial.settings } : {}),
+  };
+  const listeners = new Set<Listener>();
+
+  // Listeners are notified asynchronously, like Firestore snapshots, so saves
+  // issued from inside a React state updater never re-enter setState.
+  const emit = () => {
+    onChange?.(snapshot());
+    queueMicrotask(() => listeners.forEach((l) => l()));
+  };
+  const listen = (l: Listener): Unsubscribe => {
+    listeners.add(l);
+    l();
+    return () => { listeners.delete(l); };
+  };
+  const pick = <T,>(src: Record<string, T>, startISO: string, endISO: string) => {
+    const out: Record<string, T> = {};
+    for (const [k, v] of Object.entries(src)) if (inRange(k, startISO, endISO)) out[k] = v;
+    return out;
+  };
+  function snapshot(): MemorySnapshot {
+    return { goals: [...state.goals], plans: { ...state.plans }, meta: { ...state.meta }, settings: state.settings };
+  }
+
+  return {
+    kind: 'memory',
+    snapshot,
+    migrate: async () => SCHEMA_VERSION, // initial data is upgraded on construction
+    close: () => {},
+
+    listGoals: async () => sortGoals(state.goals),
+    saveGoal: async (goal) => {
+      const idx = state.goals.findIndex((g) => g.id === goal.id);
+      state.goals = idx === -1
+        ? [goal, ...state.goals]
+        : state.goals.map((g) => (g.id === goal.id ? goal : g));
+      emit();
+    },
+    deleteGoal: async (id) => {
+      state.goals = state.goals.filter((g) => g.id !== id);
+      emit();
+    },
+    watchGoals: (cb) => listen(() => cb(sortGoals(state.goals))),
+
+    getPlan: async (date) => state.plans[date],
+    listPlans: async (startISO, endISO) => pick(state.plans, startISO, endISO),
+    savePlan: async (plan) => {
+      const stored = state.plans[plan.date];
+      state.plans = { ...state.plans, [plan.date]: stored ? mergePlans(plan, stored) : plan };
+      emit();
+    },
+    watchPlan: (date, cb) => listen(() => cb(state.plans[date])),
+
+    getMeta: async (date) => state.meta[date],
+    listMeta: async (startISO, endISO) => pick(state.meta, startISO, endISO),
+    saveMeta: async (m) => {
+      state.meta = { ...state.meta, [m.date]: { ...(state.meta[m.date] ?? {}), ...m } };
+      emit();
+    },
+    watchMeta: (date, cb) => listen(() => cb(state.meta[date])),
+
+    getSettings: async () => state.settings,
+    saveSettings: async (settings) => {
+      state.settings = settings;
+      emit();
+    },
+  };
+}
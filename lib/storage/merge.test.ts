@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { DayPlan, FocusSession, Task } from '@/lib/types';
+import { mergePlans, stampPlan } from './merge';
+
+const T0 = '2025-03-10T08:00:00.000Z';
+const T1 = '2025-03-10T09:00:00.000Z';
+const T2 = '2025-03-10T10:00:00.000Z';
+
+const task = (id: string, percent = 0): Task => ({ id, goalId: 'g1', title: id, percent });
+const base = stampPlan(
+  { date: '2025-03-10', priorities: [], tasks: [], credits: {}, postponeFlags: {} },
+  { date: '2025-03-10', priorities: ['g1'], tasks: [task('a'), task('b')], credits: {}, postponeFlags: {} },
+  T0,
+);
+const edit = (from: DayPlan, change: Partial<DayPlan>, at: string) => stampPlan(from, { ...from, ...change }, at);
+const percents = (p: DayPlan) => Object.fromEntries(p.tasks.map((t) => [t.id, t.percent]));
+
+describe('mergePlans', () => {
+  it('converges concurrent percent edits to different tasks', () => {
+    const phone = edit(base, { tasks: [task('a', 40), task('b')] }, T1);
+    const laptop = edit(base, { tasks: [task('a'), task('b', 70)] }, T2);
+
+    expect(percents(mergePlans(phone, laptop))).toEqual({ a: 40, b: 70 });
+    expect(percents(mergePlans(laptop, phone))).toEqual({ a: 40, b: 70 });
+  });
+
+  it('lets a delete beat an older edit and keeps the tombstone through later merges', () => {
+    const edited = edit(base, { tasks: [task('a', 40), task('b')] }, T1);
+    const deleted = edit(base, { tasks: [task('b')] }, T2);
+
+    const merged = mergePlans(edited, deleted);
+    expect(merged.tasks.map((t) => t.id)).toEqual(['b']);
+    expect(merged.removedTasks).toEqual({ a: T2 });
+
+    // A device that never saw the delete still has the edited task.
+    const again = mergePlans(edited, merged);
+    expect(again.tasks.map((t) => t.id)).toEqual(['b']);
+    expect(again.removedTasks).toEqual({ a: T2 });
+  });
+
+  it('lets an edit newer than the delete bring the task back', () => {
+    const deleted = edit(base, { tasks: [task('b')] }, T1);
+    const edited = edit(base, { tasks: [task('a', 40), task('b')] }, T2);
+    expect(percents(mergePlans(deleted, edited))).toEqual({ a: 40, b: 0 });
+  });
+
+  it('merges postpone flags and credits per key', () => {
+    const phone = edit(base, { postponeFlags: { a: true }, credits: { g1: 3 } }, T1);
+    const laptop = edit(base, { postponeFlags: { b: true }, credits: { g1: 5, g2: 2 } }, T2);
+
+    const merged = mergePlans(phone, laptop);
+    expect(merged.postponeFlags).toEqual({ a: true, b: true });
+    expect(merged.credits).toEqual({ g1: 5, g2: 2 });
+    expect(mergePlans(laptop, phone).credits).toEqual({ g1: 5, g2: 2 });
+  });
+
+  it('drops focus sessions that ended before the latest reset', () => {
+    const session = (id: string, endISO: string, status: FocusSession['status'] = 'completed'): FocusSession =>
+      ({ id, startISO: endISO, endISO, durationMin: 25, acknowledgedAt: [], status });
+    const phone = { ...base, focusedSessions: [session('s1', T0), session('s3', T2)] };
+    const laptop = { ...base, focusedSessions: [session('s2', T1, 'failed')], focusResetAt: T1 };
+
+    const merged = mergePlans(phone, laptop);
+    expect(merged.focusedSessions!.map((s) => s.id)).toEqual(['s3']);
+    expect(merged.focusedCount).toBe(1);
+    expect(merged.focusResetAt).toBe(T1);
+  });
+});
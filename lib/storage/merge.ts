@@ -0,0 +1,170 @@
+// Conflict-safe merging of DayPlan edits from several devices.
+//
+// Every device stamps what it changed (stampPlan) into `plan.clock`, keyed per
+// entry: `task:<id>`, `flag:<taskId>`, `credit:<goalId>`, `weight:<goalId>`, `milestone:<goalId>`,
+// `trash:<taskId>` and `priorities`.
+// mergePlans then resolves each entry independently, last writer wins.
+// Deleted tasks leave a tombstone in `removedTasks` so they don't come back,
+// and focus sessions are a grow-only set cut off at the latest failure.
+
+import type { DayPlan, FocusSession, Task } from '@/lib/types';
+
+type Side = 'a' | 'b';
+
+const nowISO = () => new Date().toISOString();
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+const maxISO = (a = '', b = '') => (a > b ? a : b);
+
+// Newer stamp wins; ties fall back to comparing values so both devices agree.
+const winner = (ta: string, tb: string, va: unknown, vb: unknown): Side => {
+  if (ta !== tb) return ta > tb ? 'a' : 'b';
+  return (JSON.stringify(va) ?? '') >= (JSON.stringify(vb) ?? '') ? 'a' : 'b';
+};
+
+const stampRecord = <T,>(
+  clock: Record<string, string>,
+  prefix: string,
+  prev: Record<string, T> = {},
+  next: Record<string, T> = {},
+  at: string,
+) => {
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  keys.forEach((k) => {
+    if (!same(prev[k], next[k])) clock[`${prefix}:${k}`] = at;
+  });
+};
+
+/** Record which entries changed between `prev` and `next` (call on every local edit). */
+export function stampPlan(prev: DayPlan, next: DayPlan, at: string = nowISO()): DayPlan {
+  if (prev === next) return next;
+  const clock = { ...(prev.clock ?? {}), ...(next.clock ?? {}) };
+  const removedTasks = { ...(prev.removedTasks ?? {}), ...(next.removedTasks ?? {}) };
+
+  const before = new Map(prev.tasks.map((t) => [t.id, t]));
+  const after = new Set(next.tasks.map((t) => t.id));
+  for (const t of next.tasks) {
+    if (!same(before.get(t.id), t)) {
+      clock[`task:${t.id}`] = at;
+      delete removedTasks[t.id];
+    }
+  }
+  before.forEach((_t, id) => { if (!after.has(id)) removedTasks[id] = at; });
+
+  stampRecord(clock, 'flag', prev.postponeFlags, next.postponeFlags, at);
+  stampRecord(clock, 'credit', prev.credits, next.credits, at);
+  stampRecord(clock, 'weight', prev.creditWeights, next.creditWeights, at);
+  stampRecord(clock, 'milestone', prev.milestoneTargets, next.milestoneTargets, at);
+  stampRecord(clock, 'trash', prev.trashedTasks, next.trashedTasks, at);
+  if (!same(prev.priorities, next.priorities)) clock.priorities = at;
+
+  return { ...next, clock, removedTasks };
+}
+
+const mergeRecord = <T,>(
+  prefix: string,
+  a: Record<string, T> = {},
+  b: Record<string, T> = {},
+  ca: Record<string, string>,
+  cb: Record<string, string>,
+  clock: Record<string, string>,
+): Record<string, T> => {
+  const out: Record<string, T> = {};
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  keys.forEach((k) => {
+    const ck = `${prefix}:${k}`;
+    const side = winner(ca[ck] ?? '', cb[ck] ?? '', a[k], b[k]);
+    const v = side === 'a' ? a[k] : b[k];
+    if (v !== undefined) out[k] = v;
+    if (ca[ck] || cb[ck]) clock[ck] = maxISO(ca[ck], cb[ck]);
+  });
+  return out;
+};
+
+const mergeTasks = (a: DayPlan, b: DayPlan, clock: Record<string, string>) => {
+  const ca = a.clock ?? {};
+  const cb = b.clock ?? {};
+  const ra = a.removedTasks ?? {};
+  const rb = b.removedTasks ?? {};
+  const inA = new Map(a.tasks.map((t) => [t.id, t]));
+  const inB = new Map(b.tasks.map((t) => [t.id, t]));
+
+  const removedTasks: Record<string, string> = {};
+  const keep = new Map<string, Task>();
+  const ids = new Set([...inA.keys(), ...inB.keys(), ...Object.keys(ra), ...Object.keys(rb)]);
+  ids.forEach((id) => {
+    const ck = `task:${id}`;
+    const taskA = inA.get(id);
+    const taskB = inB.get(id);
+    const ta = taskA ? ca[ck] ?? '' : '';
+    const tb = taskB ? cb[ck] ?? '' : '';
+    const removedAt = maxISO(ra[id], rb[id]);
+    if (ca[ck] || cb[ck]) clock[ck] = maxISO(ca[ck], cb[ck]);
+
+    if (removedAt && removedAt >= maxISO(ta, tb)) { removedTasks[id] = removedAt; return; }
+    if (!taskA && !taskB) return;
+    const side = !taskB ? 'a' : !taskA ? 'b' : winner(ta, tb, taskA, taskB);
+    keep.set(id, (side === 'a' ? taskA : taskB)!);
+  });
+
+  // Keep a's ordering; tasks only b knows about are new, so they go on top.
+  const tasks = [
+    ...b.tasks.filter((t) => keep.has(t.id) && !inA.has(t.id)).map((t) => keep.get(t.id)!),
+    ...a.tasks.filter((t) => keep.has(t.id)).map((t) => keep.get(t.id)!),
+  ];
+  return { tasks, removedTasks };
+};
+
+const mergeFocus = (a: DayPlan, b: DayPlan) => {
+  const focusResetAt = maxISO(a.focusResetAt, b.focusResetAt) || undefined;
+  const byId = new Map<string, FocusSession>();
+  for (const s of [...(a.focusedSessions ?? []), ...(b.focusedSessions ?? [])]) {
+    if (focusResetAt && s.endISO <= focusResetAt) continue;
+    byId.set(s.id, s);
+  }
+  const focusedSessions = [...byId.values()].sort((x, y) => (x.startISO < y.startISO ? 1 : -1));
+  const focusedCount = focusedSessions.filter((s) => s.status === 'completed').length;
+  return { focusResetAt, focusedSessions, focusedCount };
+};
+
+/** Converge two versions of the same day. `a` is usually local, `b` remote. */
+export function mergePlans(a: DayPlan, b: DayPlan): DayPlan {
+  if (a === b) return a;
+  const ca = a.clock ?? {};
+  const cb = b.clock ?? {};
+  const clock: Record<string, string> = {};
+
+  const { tasks, removedTasks } = mergeTasks(a, b, clock);
+  const postponeFlags = mergeRecord('flag', a.postponeFlags, b.postponeFlags, ca, cb, clock);
+  const credits = mergeRecord('credit', a.credits, b.credits, ca, cb, clock);
+  const creditWeights = mergeRecord('weight', a.creditWeights, b.creditWeights, ca, cb, clock);
+  const milestoneTargets = mergeRecord('milestone', a.milestoneTargets, b.milestoneTargets, ca, cb, clock);
+  const trashedTasks = mergeRecord('trash', a.trashedTasks, b.trashedTasks, ca, cb, clock);
+
+  const pSide = winner(ca.priorities ?? '', cb.priorities ?? '', a.priorities, b.priorities);
+  const priorities = [...(pSide === 'a' ? a.priorities : b.priorities)];
+  if (ca.priorities || cb.priorities) clock.priorities = maxISO(ca.priorities, cb.priorities);
+  // A task added on one device must stay reachable even if the other device's list won.
+  for (const t of tasks) if (!priorities.includes(t.goalId)) priorities.push(t.goalId);
+
+  const carriedFrom = maxISO(a.carriedFrom, b.carriedFrom) || undefined;
+  const focus = mergeFocus(a, b);
+
+  const out: DayPlan = {
+    ...b,
+    ...a,
+    priorities,
+    tasks,
+    credits,
+    postponeFlags,
+    focusedCount: focus.focusedCount,
+    focusedSessions: focus.focusedSessions,
+    clock,
+    removedTasks,
+  };
+  if (Object.keys(trashedTasks).length) out.trashedTasks = trashedTasks; else delete out.trashedTasks;
+  if (Object.keys(creditWeights).length) out.creditWeights = creditWeights; else delete out.creditWeights;
+  if (Object.keys(milestoneTargets).length) out.milestoneTargets = milestoneTargets; else delete out.milestoneTargets;
+  if (carriedFrom) out.carriedFrom = carriedFrom; else delete out.carriedFrom;
+  if (focus.focusResetAt) out.focusResetAt = focus.focusResetAt; else delete out.focusResetAt;
+  return out;
+}
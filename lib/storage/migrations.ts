@@ -0,0 +1,113 @@
+// Versioned schema migrations for goals, day plans and day meta.
+//
+// Documents carry `schemaVersion` (missing = 0). Each step upgrades exactly one
+// version, so data from any older release is walked forward step by step.
+// The runners live with their backends: migrateLocalStorage (local.ts) and
+// migrateFirestore (firestore.ts).
+
+import type { DayMeta, DayPlan, Goal, Task } from '@/lib/types';
+
+export const SCHEMA_VERSION = 3;
+
+export type Doc = Record<string, unknown>;
+type Step = (d: Doc) => Doc;
+
+export const num = (v: unknown, fallback: number) => (typeof v === 'number' && Number.isFinite(v) ? v : fallback);
+const str = (v: unknown, fallback: string) => (typeof v === 'string' && v ? v : fallback);
+
+// goalSteps[i] upgrades a goal from version i to i + 1.
+const goalSteps: Step[] = [
+  // 0 → 1: fill the base fields every screen assumes.
+  (g) => {
+    const now = new Date().toISOString();
+    const createdAt = str(g.createdAt, now);
+    return {
+      ...g,
+      note: str(g.note, ''),
+      priority: str(g.priority, 'Medium'),
+      status: str(g.status, 'Active'),
+      progress: Math.min(Math.max(Math.round(num(g.progress, 0)), 0), 100),
+      createdAt,
+      updatedAt: str(g.updatedAt, createdAt),
+      startDate: str(g.startDate, createdAt.slice(0, 10)),
+      targetDate: str(g.targetDate, str(g.startDate, createdAt.slice(0, 10))),
+    };
+  },
+  // 1 → 2: per-goal daily weight.
+  (g) => ({ ...g, dailyWeight: num(g.dailyWeight, 5) }),
+  // 2 → 3: no per-doc change; the journal's ltgoals are folded into goals by the runner.
+  (g) => g,
+];
+
+const planSteps: Step[] = [
+  // 0 → 1: percent-based tasks (early builds stored `done: boolean`), credits and postpone flags.
+  (p) => ({
+    ...p,
+    priorities: Array.isArray(p.priorities) ? p.priorities : [],
+    tasks: (Array.isArray(p.tasks) ? (p.tasks as Doc[]) : []).map((t) => {
+      const { done, ...rest } = t;
+      return { ...rest, percent: num(t.percent, done ? 100 : 0) } as unknown as Task;
+    }),
+    credits: (p.credits as Doc | undefined) ?? {},
+    postponeFlags: (p.postponeFlags as Doc | undefined) ?? {},
+  }),
+  // 1 → 2: focus sessions.
+  (p) => {
+    const focusedSessions = Array.isArray(p.focusedSessions) ? p.focusedSessions : [];
+    return { ...p, focusedSessions, focusedCount: num(p.focusedCount, focusedSessions.length) };
+  },
+  // 2 → 3: no change.
+  (p) => p,
+];
+
+const metaSteps: Step[] = [
+  // 0 → 1: nothing to reshape; reflections were always free-form fields.
+  (m) => m,
+  // 1 → 2: no change (keeps versions aligned across entity kinds).
+  (m) => m,
+  // 2 → 3: no change.
+  (m) => m,
+];
+
+const run = (steps: Step[], d: Doc): Doc => {
+  let out = d;
+  for (let v = num(d.schemaVersion, 0); v < steps.length; v++) out = steps[v](out);
+  return { ...out, schemaVersion: steps.length };
+};
+
+export const needsUpgrade = (d: { schemaVersion?: number }) => (d.schemaVersion ?? 0) < SCHEMA_VERSION;
+export const upgradeGoal = (g: Goal | Doc): Goal => run(goalSteps, g as Doc) as unknown as Goal;
+export const upgradePlan = (p: DayPlan | Doc): DayPlan => run(planSteps, p as Doc) as unknown as DayPlan;
+export const upgradeMeta = (m: DayMeta | Doc): DayMeta => run(metaSteps, m as Doc) as unknown as DayMeta;
+
+export const withVersion = <T extends object>(d: T): T => ({ ...d, schemaVersion: SCHEMA_VERSION });
+
+/** Version that retired users/{uid}/ltgoals in favour of the planner's goals. */
+export const JOURNAL_GOALS_MERGED = 3;
+
+/**
+ * A goal from the journal's old users/{uid}/ltgoals collection ({ title,
+ * description?, dueDate?, progress? }) as a planner goal. It keeps its id so
+ * journal entries linking to it stay valid; without a due date it gets the
+ * journal's 3-month horizon.
+ */
+export const goalFromJournalGoal = (id: string, lt: Doc): Goal => {
+  const createdAt = str(lt.createdAt, new Date().toISOString());
+  const startDate = createdAt.slice(0, 10);
+  const horizon = new Date(startDate + 'T00:00:00');
+  horizon.setMonth(horizon.getMonth() + 3);
+  const due = str(lt.dueDate, horizon.toISOString().slice(0, 10));
+  const progress = Math.min(Math.max(Math.round(num(lt.progress, 0)), 0), 100);
+  return upgradeGoal({
+    id,
+    title: str(lt.title, 'Untitled goal'),
+    note: str(lt.description, ''),
+    startDate,
+    targetDate: due < startDate ? startDate : due,
+    priority: 'Medium',
+    status: progress >= 100 ? 'Completed' : 'Active',
+    progress,
+    createdAt,
+    updatedAt: str(lt.updatedAt, createdAt),
+  });
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { DayPlan, Task } from '@/lib/types';
+import { createMemoryRepository } from './memory';
+import { stampPlan } from './merge';
+import { createPlanWriteQueue, type PlanQueueStorage } from './planQueue';
+
+const DATE = '2025-03-10';
+const empty: DayPlan = { date: DATE, priorities: [], tasks: [], credits: {}, postponeFlags: {} };
+const task = (id: string, percent = 0): Task => ({ id, goalId: 'g1', title: id, percent });
+const withTasks = (tasks: Task[], at: string) => stampPlan(empty, { ...empty, priorities: ['g1'], tasks }, at);
+
+const settle = () => new Promise((r) => setTimeout(r, 0));
+
+// Stands in for localStorage.
+const memoryStorage = (): PlanQueueStorage & { saved: DayPlan[] } => {
+  const s = { saved: [] as DayPlan[], load: () => s.saved, save: (plans: DayPlan[]) => { s.saved = plans; } };
+  return s;
+};
+
+// The shared store, plus a flaky link to it for "this device".
+const setup = (storage?: PlanQueueStorage, store = createMemoryRepository()) => {
+  let online = true;
+  const retries: (() => void)[] = [];
+  const reconnects = new Set<() => void>();
+  const queue = createPlanWriteQueue(
+    async (plan) => {
+      if (!online) throw new Error('offline');
+      await store.savePlan(plan);
+    },
+    {
+      schedule: (run) => { retries.push(run); return () => { retries.splice(retries.indexOf(run), 1); }; },
+      storage,
+      onReconnect: (run) => { reconnects.add(run); return () => { reconnects.delete(run); }; },
+    },
+  );
+  return { store, queue, retries, reconnects, setOnline: (v: boolean) => { online = v; } };
+};
+
+describe('plan write queue', () => {
+  it('never overwrites the stored day when the merge write fails', async () => {
+    const { store, queue, setOnline } = setup();
+    await store.savePlan(withTasks([task('other-device', 40)], '2025-03-10T08:00:00.000Z'));
+
+    setOnline(false);
+    await queue.save(withTasks([task('this-device')], '2025-03-10T09:00:00.000Z'));
+
+    expect(queue.pending()).toEqual([DATE]);
+    expect((await store.getPlan(DATE))!.tasks.map((t) => t.id)).toEqual(['other-device']);
+  });
+
+  it('merges the queued write once the transaction can succeed', async () => {
+    const { store, queue, retries, setOnline } = setup();
+    await store.savePlan(withTasks([task('other-device', 40)], '2025-03-10T08:00:00.000Z'));
+
+    setOnline(false);
+    await queue.save(withTasks([task('a')], '2025-03-10T09:00:00.000Z'));
+    await queue.save(withTasks([task('a', 50), task('b')], '2025-03-10T09:05:00.000Z'));
+    expect(retries).toHaveLength(1);
+
+    setOnline(true);
+    retries[0]();
+    await settle();
+
+    const stored = (await store.getPlan(DATE))!;
+    expect(queue.pending()).toEqual([]);
+    expect(stored.tasks.map((t) => [t.id, t.percent]).sort()).toEqual([['a', 50], ['b', 0], ['other-device', 40]]);
+  });
+
+  it('keeps retrying while the write keeps failing', async () => {
+    const { queue, retries, setOnline } = setup();
+    setOnline(false);
+    await queue.save(withTasks([task('a')], '2025-03-10T09:00:00.000Z'));
+    retries[0]();
+    await settle();
+    expect(queue.pending()).toEqual([DATE]);
+    expect(retries).toHaveLength(2);
+  });
+
+  it('keeps waiting writes in storage and replays them in a new session', async () => {
+    const storage = memoryStorage();
+    const first = setup(storage);
+    await first.store.savePlan(withTasks([task('other-device', 40)], '2025-03-10T08:00:00.000Z'));
+    first.setOnline(false);
+    await first.queue.save(withTasks([task('offline-edit', 30)], '2025-03-10T09:00:00.000Z'));
+    expect(storage.saved.map((p) => p.date)).toEqual([DATE]);
+    first.queue.close(); // the tab closes before the device reconnects
+
+    const second = setup(storage, first.store);
+    await settle();
+    const stored = (await second.store.getPlan(DATE))!;
+    expect(stored.tasks.map((t) => t.id).sort()).toEqual(['offline-edit', 'other-device']);
+    expect(second.queue.pending()).toEqual([]);
+    expect(storage.saved).toEqual([]);
+  });
+
+  it('watches the connection only while writes wait, and stops on close', async () => {
+    const { queue, retries, reconnects, setOnline } = setup();
+    setOnline(false);
+    await queue.save(withTasks([task('a')], '2025-03-10T09:00:00.000Z'));
+    expect(reconnects.size).toBe(1);
+
+    setOnline(true);
+    [...reconnects][0]();
+    await settle();
+    expect(reconnects.size).toBe(0);
+
+    setOnline(false);
+    await queue.save(withTasks([task('b')], '2025-03-10T09:10:00.000Z'));
+    queue.close();
+    expect(reconnects.size).toBe(0);
+    expect(retries).toHaveLength(0);
+  });
+});
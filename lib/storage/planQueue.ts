@@ -0,0 +1,128 @@
+// Day plan writes that couldn't be merged into the stored copy yet (offline,
+// contention, retries exhausted). A plan is only ever written through the
+// merge in `commit`, never over the stored document: failed writes wait here,
+// later edits to the same day are folded in with mergePlans, and the merge is
+// retried with backoff (or on flush(), e.g. when the browser comes back online).
+// Waiting writes are kept in `storage` too, so closing the tab while offline
+// doesn't lose them: the next queue created over the same storage replays them.
+
+import type { DayPlan } from '@/lib/types';
+import { mergePlans } from './merge';
+
+export interface PlanWriteQueue {
+  /** Merge-write `plan`; if that fails it is queued and retried, so this never rejects. */
+  save(plan: DayPlan): Promise<void>;
+  /** Retry every queued day now. */
+  flush(): Promise<void>;
+  /** Dates with a write still waiting. */
+  pending(): string[];
+  /** Stop retrying and watching the connection; queued writes stay in storage. */
+  close(): void;
+}
+
+export interface PlanQueueStorage {
+  load(): DayPlan[];
+  save(plans: DayPlan[]): void;
+}
+
+export interface PlanQueueOptions {
+  retryMs?: number;     // first retry delay, doubled after every failure
+  maxRetryMs?: number;
+  schedule?: (run: () => void, ms: number) => () => void; // returns a cancel
+  storage?: PlanQueueStorage;
+  /** Call `run` whenever the connection comes back; returns the unsubscribe. Only watched while writes wait. */
+  onReconnect?: (run: () => void) => () => void;
+}
+
+const timer = (run: () => void, ms: number) => {
+  const t = setTimeout(run, ms);
+  return () => clearTimeout(t);
+};
+
+export function createPlanWriteQueue(
+  commit: (plan: DayPlan) => Promise<void>,
+  { retryMs = 2000, maxRetryMs = 60000, schedule = timer, storage, onReconnect }: PlanQueueOptions = {},
+): PlanWriteQueue {
+  const waiting = new Map<string, DayPlan>();
+  const committing = new Set<string>();
+  let delay = retryMs;
+  let cancelRetry: (() => void) | null = null;
+  let stopWatching: (() => void) | null = null;
+
+  const enqueue = (plan: DayPlan) => {
+    const queued = waiting.get(plan.date);
+    waiting.set(plan.date, queued ? mergePlans(plan, queued) : plan);
+  };
+
+  const persist = () => {
+    try {
+      storage?.save([...waiting.values()]);
+    } catch {
+      // quota / private mode: the queue still lives in memory
+    }
+  };
+
+  const watch = () => {
+    if (!stopWatching && onReconnect) stopWatching = onReconnect(() => { void flush(); });
+  };
+  const settle = () => {
+    if (waiting.size) return;
+    delay = retryMs;
+    stopWatching?.();
+    stopWatching = null;
+  };
+
+  const retryLater = () => {
+    if (cancelRetry || !waiting.size) return;
+    cancelRetry = schedule(() => { cancelRetry = null; void flush(); }, delay);
+    delay = Math.min(delay * 2, maxRetryMs);
+  };
+
+  // Commit the day until what is stored matches what waits; edits that ride
+  // along while a commit is in flight go out in the next round.
+  async function drain(date: string) {
+    if (committing.has(date)) return;
+    committing.add(date);
+    try {
+      for (let plan = waiting.get(date); plan; plan = waiting.get(date)) {
+        try {
+          await commit(plan);
+        } catch {
+          retryLater();
+          return;
+        }
+        if (waiting.get(date) === plan) waiting.delete(date);
+        persist();
+      }
+    } finally {
+      committing.delete(date);
+    }
+    settle();
+  }
+
+  async function flush() {
+    await Promise.all([...waiting.keys()].map(drain));
+  }
+
+  for (const plan of storage?.load() ?? []) enqueue(plan);
+  if (waiting.size) { watch(); void flush(); }
+
+  return {
+    save: async (plan) => {
+      // Already waiting (a retry is due, or a commit is in flight): ride along with it.
+      const riding = waiting.has(plan.date);
+      enqueue(plan);
+      persist();
+      watch();
+      if (!riding) await drain(plan.date);
+    },
+    flush,
+    pending: () => [...waiting.keys()],
+    close: () => {
+      cancelRetry?.();
+      cancelRetry = null;
+      stopWatching?.();
+      stopWatching = null;
+    },
+  };
+}
@@ -0,0 +1,102 @@
+// First-sign-in reconciliation: find signed-out localStorage data that isn't in
+// users/{uid} yet and upload, merge or discard it.
+
+import type { DayMeta, DayPlan, Goal } from '@/lib/types';
+import type { GoalsRepository } from './repository';
+import { clearLocalData, migrateLocalStorage, readLocalSnapshot } from './local';
+import { mergePlans, stampPlan } from './merge';
+
+export type ImportMode = 'upload' | 'merge' | 'discard';
+
+export interface Pair<T> { local: T; cloud?: T }
+
+export interface LocalImportDiff {
+  goals: Pair<Goal>[];   // cloud undefined = only on this device
+  plans: Pair<DayPlan>[];
+  meta: Pair<DayMeta>[];
+}
+
+// Deep equality that ignores key order (Firestore doesn't keep it) and treats
+// undefined fields as missing, like a stored document does.
+const definedKeys = (o: object) => Object.keys(o).filter((k) => (o as Record<string, unknown>)[k] !== undefined);
+const same = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const ka = definedKeys(a), kb = definedKeys(b);
+  return ka.length === kb.length &&
+    ka.every((k) => same((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+};
+
+// Ignore what the app writes on its own (empty carry-over days, blank reflections).
+const planHasContent = (p: DayPlan) =>
+  p.tasks.length > 0 || p.priorities.length > 0 || (p.focusedSessions?.length ?? 0) > 0;
+const metaHasContent = (m: DayMeta) =>
+  !!(m.learned?.trim() || m.improve?.trim() || m.whyNotComplete?.trim() || m.triedWell);
+
+// Compare only what the user edited, not bookkeeping fields.
+const without = <T extends object>(o: T, fields: readonly (keyof T)[]) => {
+  const rest = { ...o };
+  for (const f of fields) delete rest[f];
+  return rest;
+};
+const goalBody = (g: Goal) => without(g, ['updatedAt', 'schemaVersion']);
+const planBody = (p: DayPlan) => ({ priorities: p.priorities, tasks: p.tasks, focusedSessions: p.focusedSessions ?? [] });
+const metaBody = (m: DayMeta) => without(m, ['schemaVersion']);
+
+export const isEmptyDiff = (d: LocalImportDiff) => !d.goals.length && !d.plans.length && !d.meta.length;
+
+/** Everything in localStorage that the account doesn't already have verbatim. */
+export async function diffLocalWithCloud(cloud: GoalsRepository): Promise<LocalImportDiff> {
+  migrateLocalStorage();
+  const local = readLocalSnapshot();
+  const plans = Object.values(local.plans).filter(planHasContent);
+  const meta = Object.values(local.meta).filter(metaHasContent);
+  const dates = [...plans, ...meta].map((x) => x.date).sort();
+
+  const [cloudGoals, cloudPlans, cloudMeta] = await Promise.all([
+    cloud.listGoals(),
+    dates.length ? cloud.listPlans(dates[0], dates[dates.length - 1]) : Promise.resolve({} as Record<string, DayPlan>),
+    dates.length ? cloud.listMeta(dates[0], dates[dates.length - 1]) : Promise.resolve({} as Record<string, DayMeta>),
+  ]);
+  const goalById = new Map(cloudGoals.map((g) => [g.id, g]));
+
+  return {
+    goals: local.goals
+      .map((g) => ({ local: g, cloud: goalById.get(g.id) }))
+      .filter(({ local: l, cloud: c }) => !c || !same(goalBody(l), goalBody(c))),
+    plans: plans
+      .map((p) => ({ local: p, cloud: cloudPlans[p.date] }))
+      .filter(({ local: l, cloud: c }) => !c || !same(planBody(l), planBody(c))),
+    meta: meta
+      .map((m) => ({ local: m, cloud: cloudMeta[m.date] }))
+      .filter(({ local: l, cloud: c }) => !c || !same(metaBody(l), metaBody(c))),
+  };
+}
+
+/**
+ * upload:  local copies win wherever both sides have the same goal/day.
+ * merge:   local-only items are added; shared days are merged entry by entry,
+ *          and the account keeps its version of shared goals and reflection fields.
+ * discard: nothing is written.
+ * In every case the local copy is cleared so the prompt doesn't come back.
+ */
+export async function importLocalData(cloud: GoalsRepository, diff: LocalImportDiff, mode: ImportMode): Promise<void> {
+  if (mode !== 'discard') {
+    const writes: Promise<void>[] = [];
+    for (const { local, cloud: c } of diff.goals) {
+      if (!c || mode === 'upload') writes.push(cloud.saveGoal(local));
+    }
+    for (const { local, cloud: c } of diff.plans) {
+      if (!c) writes.push(cloud.savePlan(local));
+      // Stamping the local day as a fresh edit over the cloud one makes it win the merge.
+      else if (mode === 'upload') writes.push(cloud.savePlan(stampPlan(c, { ...local, clock: c.clock, removedTasks: c.removedTasks })));
+      else writes.push(cloud.savePlan(mergePlans(local, c)));
+    }
+    for (const { local, cloud: c } of diff.meta) {
+      writes.push(cloud.saveMeta(mode === 'upload' || !c ? local : { ...local, ...c }));
+    }
+    await Promise.all(writes);
+  }
+  clearLocalData();
+}
@@ -0,0 +1,44 @@
+// Storage-agnostic access to goals, day plans and day meta.
+// GoalsApp only talks to this interface; the backend is picked per user.
+
+import type { DayMeta, DayPlan, Goal, PlannerSettings } from '@/lib/types';
+
+export type Unsubscribe = () => void;
+
+export interface GoalsRepository {
+  readonly kind: 'local' | 'firestore' | 'memory';
+
+  /** Upgrade stored data to SCHEMA_VERSION (lib/storage/migrations.ts); resolves to the applied version. */
+  migrate(): Promise<number>;
+  /** Stop background work (queued write retries, connection listeners); call when dropping the repository. */
+  close(): void;
+
+  /* ---- goals ---- */
+  listGoals(): Promise<Goal[]>;
+  saveGoal(goal: Goal): Promise<void>;
+  deleteGoal(id: string): Promise<void>;
+  watchGoals(cb: (goals: Goal[]) => void): Unsubscribe;
+
+  /* ---- day plans (keyed by YYYY-MM-DD) ---- */
+  getPlan(date: string): Promise<DayPlan | undefined>;
+  listPlans(startISO: string, endISO: string): Promise<Record<string, DayPlan>>;
+  savePlan(plan: DayPlan): Promise<void>;
+  watchPlan(date: string, cb: (plan: DayPlan | undefined) => void): Unsubscribe;
+
+  /* ---- day meta (reflection) ---- */
+  getMeta(date: string): Promise<DayMeta | undefined>;
+  listMeta(startISO: string, endISO: string): Promise<Record<string, DayMeta>>;
+  saveMeta(meta: DayMeta): Promise<void>;
+  watchMeta(date: string, cb: (meta: DayMeta | undefined) => void): Unsubscribe;
+
+  /* ---- planner settings (a single document) ---- */
+  getSettings(): Promise<PlannerSettings | undefined>;
+  saveSettings(settings: PlannerSettings): Promise<void>;
+}
+
+// Goals are listed newest first on every backend (mirrors the Firestore orderBy).
+export const sortGoals = (goals: Goal[]): Goal[] =>
+  [...goals].sort((a, b) => (a.createdAt < b.createdAt ? 1 : a.createdAt > b.createdAt ? -1 : 0));
+
+export const inRange = (date: string, startISO: string, endISO: string) =>
+  date >= startISO && date <= endISO;
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import type { DayPlan, Task } from '@/lib/types';
+import { streakDays } from './streak';
+
+const plan = (date: string, tasks: Partial<Task>[]): DayPlan => ({
+  date, priorities: ['g'], postponeFlags: {}, credits: {},
+  tasks: tasks.map((t, i) => ({ id: `${date}-${i}`, goalId: 'g', title: 't', percent: 0, ...t })),
+});
+const byDate = (...plans: DayPlan[]) => Object.fromEntries(plans.map((p) => [p.date, p]));
+
+describe('streakDays', () => {
+  it('counts consecutive days with progress, ending today', () => {
+    const plans = byDate(
+      plan('2025-03-08', [{ percent: 100 }]),
+      plan('2025-03-09', [{ percent: 25 }]),
+      plan('2025-03-10', [{ percent: 50 }]),
+    );
+    expect(streakDays(plans, '2025-03-10')).toBe(3);
+  });
+
+  it('stops at a day without a plan or without progress', () => {
+    const plans = byDate(plan('2025-03-08', [{ percent: 100 }]), plan('2025-03-10', [{ percent: 50 }, { percent: 0 }]));
+    expect(streakDays(plans, '2025-03-10')).toBe(1);
+    expect(streakDays(byDate(plan('2025-03-10', [{ percent: 0 }])), '2025-03-10')).toBe(0);
+  });
+
+  it('does not count progress carried over from an earlier day', () => {
+    const plans = byDate(
+      plan('2025-03-09', [{ percent: 40 }]),
+      plan('2025-03-10', [{ percent: 40, carriedPercent: 40 }]),
+    );
+    expect(streakDays(plans, '2025-03-10')).toBe(0);
+    plans['2025-03-10'].tasks[0].percent = 60;
+    expect(streakDays(plans, '2025-03-10')).toBe(2);
+  });
+});
@@ -0,0 +1,23 @@
+// Streak: consecutive days, ending today, on which some work was logged.
+
+import type { DayPlan } from '@/lib/types';
+import { creditPercent } from '@/lib/effort';
+
+const previousDay = (iso: string) => {
+  const d = new Date(iso + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().slice(0, 10);
+};
+
+/**
+ * Work was done on the day: a task moved forward. Progress a carried-over
+ * task brought along from an earlier day doesn't count, so merely opening
+ * the app doesn't keep a streak alive.
+ */
+export const didWork = (plan: DayPlan | undefined) => !!plan && plan.tasks.some((t) => creditPercent(t) > 0);
+
+export function streakDays(plans: Record<string, DayPlan>, today: string): number {
+  let count = 0;
+  for (let day = today; didWork(plans[day]); day = previousDay(day)) count++;
+  return count;
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import type { Goal } from '@/lib/types';
+import { isPurged, isTrashed, purgeGoal, trashGoal } from './trash';
+
+const goal: Goal = {
+  id: 'g', title: 'Write thesis', note: 'long note', startDate: '2025-01-01', targetDate: '2025-06-30',
+  priority: 'High', status: 'Active', progress: 35, dailyWeight: 5, createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z', milestones: [{ id: 'm', title: 'Draft', weight: 1, progress: 35 }],
+};
+
+describe('purgeGoal', () => {
+  it('leaves a tombstone that still names the goal', () => {
+    const trashed = trashGoal(goal, '2025-02-01T00:00:00.000Z');
+    const tombstone = purgeGoal(trashed, '2025-03-05T00:00:00.000Z');
+
+    expect(tombstone).toMatchObject({ id: 'g', title: 'Write thesis', deletedAt: '2025-02-01T00:00:00.000Z', purgedAt: '2025-03-05T00:00:00.000Z' });
+    expect(tombstone.note).toBe('');
+    expect(tombstone.milestones).toBeUndefined();
+    expect(isTrashed(tombstone) && isPurged(tombstone)).toBe(true);
+    expect(isPurged(trashed)).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+// Soft delete. Goals get a `deletedAt` stamp and stay in storage so history
+// keeps resolving their titles; deleted tasks move into their day's
+// `trashedTasks`. Both can be restored until they're purged for good. A
+// purged goal still leaves a tombstone behind, for the same reason.
+
+import type { DayPlan, Goal, Task } from '@/lib/types';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const isExpired = (deletedAt: string, now: Date = new Date()) =>
+  now.getTime() - new Date(deletedAt).getTime() > TRASH_RETENTION_DAYS * DAY_MS;
+
+export const isTrashed = (g: Goal) => !!g.deletedAt;
+
+export const trashGoal = (g: Goal, at: string = new Date().toISOString()): Goal =>
+  ({ ...g, deletedAt: at, updatedAt: at });
+
+export const isPurged = (g: Goal) => !!g.purgedAt;
+
+/** The tombstone a goal leaves when purged: nothing but what history and exports need to name it. */
+export const purgeGoal = (g: Goal, at: string = new Date().toISOString()): Goal => ({
+  id: g.id, title: g.title, note: '', startDate: g.startDate, targetDate: g.targetDate, priority: g.priority,
+  status: g.status, progress: g.progress, createdAt: g.createdAt, updatedAt: at,
+  deletedAt: g.deletedAt ?? at, purgedAt: at,
+});
+
+export const restoreGoal = (g: Goal): Goal => {
+  const rest = { ...g, updatedAt: new Date().toISOString() };
+  delete rest.deletedAt;
+  return rest;
+};
+
+/** Move a task into the day's trash (its postpone flag goes with it). */
+export const trashTask = (plan: DayPlan, taskId: string, at: string = new Date().toISOString()): DayPlan => {
+  const task = plan.tasks.find((t) => t.id === taskId);
+  if (!task) return plan;
+  const postponeFlags = { ...(plan.postponeFlags || {}) };
+  delete postponeFlags[taskId];
+  return {
+    ...plan,
+    tasks: plan.tasks.filter((t) => t.id !== taskId),
+    postponeFlags,
+    trashedTasks: { ...(plan.trashedTasks || {}), [taskId]: { ...task, deletedAt: at } },
+  };
+};
+
+export const restoreTask = (plan: DayPlan, taskId: string): DayPlan => {
+  const trashed = plan.trashedTasks?.[taskId];
+  if (!trashed) return plan;
+  const task: Task & { deletedAt?: string } = { ...trashed };
+  delete task.deletedAt;
+  return { ...plan, tasks: [task, ...plan.tasks], trashedTasks: withoutKey(plan.trashedTasks!, taskId) };
+};
+
+export const purgeTask = (plan: DayPlan, taskId: string): DayPlan =>
+  plan.trashedTasks?.[taskId] ? { ...plan, trashedTasks: withoutKey(plan.trashedTasks, taskId) } : plan;
+
+/** Drop trashed tasks past retention; returns the same plan when nothing expired. */
+export const purgeExpiredTasks = (plan: DayPlan, now: Date = new Date()): DayPlan => {
+  const expired = Object.entries(plan.trashedTasks || {}).filter(([, t]) => isExpired(t.deletedAt, now));
+  return expired.reduce((p, [id]) => purgeTask(p, id), plan);
+};
+
+const withoutKey = <T,>(rec: Record<string, T>, key: string) => {
+  const out = { ...rec };
+  delete out[key];
+  return out;
+};
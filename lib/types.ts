@@ -0,0 +1,167 @@
+// Shared domain types for the planner (goals, day plans, reflections) and the journal.
+
+export type Priority = 'Low' | 'Medium' | 'High';
+export type GoalStatus = 'Active' | 'Paused' | 'Completed' | 'Dropped';
+export type Tried = 'Yes' | 'No' | 'Neutral';
+
+export interface Milestone {
+  id: string;
+  title: string;
+  weight: number;      // relative share of the goal
+  targetDate?: string; // YYYY-MM-DD
+  progress: number;    // 0–100; once credited, derived from `base` + `credited`
+  base?: number;       // progress it had before the first credit landed on it
+  credited?: number;   // goal-percent points credited or adjusted onto it, unclamped
+}
+
+export type TemplateSchedule =
+  | { kind: 'daily' }
+  | { kind: 'weekdays'; days: number[] } // 0 = Sunday
+  | { kind: 'interval'; every: number };  // every N days from startDate
+
+export interface TaskTemplate {
+  id: string;
+  title: string;
+  how?: string;
+  schedule: TemplateSchedule;
+  startDate: string;     // YYYY-MM-DD
+  paused?: boolean;
+  skipDates?: string[];  // single occurrences to skip
+}
+
+export interface LifeArea {
+  name: string;  // e.g. Research, Health, Career
+  color: string; // hex
+}
+
+export interface GoalLedgerDay {
+  credited: number; // progress points from planner credits
+  adjusted: number; // progress points from manual changes
+}
+
+export interface ProgressEvent {
+  id: string;
+  at: string;            // ISO time of the (last) change
+  date: string;          // YYYY-MM-DD it counts towards
+  kind: 'credit' | 'adjustment';
+  delta: number;         // progress points actually applied
+  progress: number;      // goal progress afterwards
+  note?: string;         // required for adjustments
+  milestoneId?: string;
+  backfilled?: boolean;  // credit for a past day, logged after the fact
+}
+
+export interface Goal {
+  id: string;
+  title: string;
+  note: string;
+  startDate: string;
+  targetDate: string;
+  priority: Priority;
+  status: GoalStatus;
+  progress: number;    // 0–100; derived from milestones when there are any
+  dailyWeight?: number;
+  area?: LifeArea;
+  blockedBy?: string[];    // prerequisite goal ids; blocked until they're all Completed
+  milestones?: Milestone[];
+  templates?: TaskTemplate[];
+  ledger?: Record<string, GoalLedgerDay>; // YYYY-MM-DD -> what moved progress that day
+  audit?: ProgressEvent[];                 // newest last, capped
+  createdAt: string;
+  updatedAt: string;
+  pausedAt?: string;       // YYYY-MM-DD while Paused
+  completedAt?: string;    // YYYY-MM-DD
+  autoCompleted?: boolean; // completed by reaching 100%, not by the user
+  droppedAt?: string;      // YYYY-MM-DD
+  dropReason?: string;
+  deletedAt?: string;      // ISO; in the trash until purged
+  purgedAt?: string;       // ISO; purged from the trash, only a tombstone is left (lib/trash.ts)
+  schemaVersion?: number;
+}
+
+export interface Task {
+  id: string;
+  goalId: string;
+  title: string;
+  how?: string;
+  percent: number; // 0..100
+  estimateMin?: number; // effort estimate; weights the task in averages, see lib/effort.ts
+  carriedPercent?: number; // progress kept from the day it was carried over from (already credited there)
+  postponed?: number;   // times this task has been carried over to a later day
+  templateId?: string; // instantiated from a recurring template
+  order?: number;       // position among the goal's tasks that day, see lib/ordering.ts
+  backfilledAt?: string; // ISO; added or changed after its day was over
+}
+
+export type TrashedTask = Task & { deletedAt: string };
+
+export interface FocusSession {
+  id: string;
+  startISO: string;
+  endISO: string;
+  durationMin: number;
+  acknowledgedAt: string[];
+  status: 'completed' | 'failed' | 'canceled';
+}
+
+export interface DayPlan {
+  date: string;                         // YYYY-MM-DD
+  priorities: string[];
+  tasks: Task[];
+  credits?: Record<string, number>;
+  creditWeights?: Record<string, number>;    // goal id -> daily weight the day is credited at
+  milestoneTargets?: Record<string, string>; // goal id -> milestone that today's credit went to
+  postponeFlags?: Record<string, boolean>;
+  carriedFrom?: string;
+  focusedCount?: number;
+  focusedSessions?: FocusSession[];
+  focusResetAt?: string;                // last failed session; older sessions are dropped
+  clock?: Record<string, string>;       // per-entry edit times, see lib/storage/merge.ts
+  removedTasks?: Record<string, string>; // task id -> deletion time (tombstones)
+  trashedTasks?: Record<string, TrashedTask>; // soft-deleted, restorable
+  schemaVersion?: number;
+}
+
+/** Planner preferences, one document per user (see lib/settings.ts for defaults). */
+export interface PlannerSettings {
+  carryPartial?: boolean;   // carried-over tasks keep the progress they had
+  autoPostpone?: boolean;   // unfinished tasks move on unless unticked at day end
+  postponeWarnAt?: number;  // warn once a task has been postponed this many times
+  capacity?: number;        // what a day can hold in `capacityUnit`; 0 = no limit
+  capacityUnit?: 'hours' | 'points';
+  updatedAt?: string;
+}
+
+export interface DayMeta {
+  date: string;
+  learned?: string;
+  improve?: string;
+  triedWell?: Tried;
+  whyNotComplete?: string;
+  backfilledAt?: string;  // ISO; reflection written after the day was over
+  schemaVersion?: number;
+}
+
+/* ========= Journal ========= */
+
+export type JournalEntry = {
+  date: string; // YYYY-MM-DD
+  lack?: string;
+  improve?: string;
+  linkedGoals?: string[];
+  completedHabits?: Record<string, boolean>;
+  updatedAt?: string;
+};
+
+export type Habit = {
+  id: string;
+  name: string;
+  createdAt?: string;
+};
+
+// users/{uid}/weekReflections/{weekStart} and users/{uid}/monthReflections/{YYYY-MM}
+export type Reflection = {
+  key: string;
+  note: string;
+  updatedAt?: string;
+};